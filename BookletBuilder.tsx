@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { GameDefinition, PAPER_SIZES, PageSetup, randomSeed } from './utils';
+import { getGames } from './registry';
+import { getGenerator } from './generators';
+import { loadGameOptions } from './options';
+import { Worksheet, createBookletPdf } from './pdf';
+import './Styles/BookletBuilder.css';
+
+const MAX_COPIES = 10;
+
+interface BookletPage {
+  game: GameDefinition;
+  seed: number;
+}
+
+// Worksheet and, when requested, its answer key
+interface RenderedPage extends BookletPage {
+  worksheet: Worksheet;
+  answerKey: Worksheet | null;
+}
+
+const pageTitle = ({ game, seed }: BookletPage) => `${game.name} · Mã đề ${seed}`;
+
+interface BookletBuilderProps {
+  pageSetup: PageSetup;
+  age: number; // Each game is generated at the preset for this age
+}
+
+const BookletBuilder: React.FC<BookletBuilderProps> = ({ pageSetup, age }) => {
+  const games = getGames();
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [includeAnswerKeys, setIncludeAnswerKeys] = useState(false);
+
+  const totalPages = games.reduce((sum, g) => sum + (counts[g.id] || 0), 0);
+  const isBuilding = progress !== null;
+
+  const handleCountChange = (gameId: string, value: string) => {
+    const count = Math.max(0, Math.min(MAX_COPIES, parseInt(value, 10) || 0));
+    setCounts(prev => ({ ...prev, [gameId]: count }));
+  };
+
+  // Makes the page's puzzle with its game's generator, at the age preset and the options set for it.
+  const renderPage = async (page: BookletPage): Promise<RenderedPage> => {
+    const generator = getGenerator(page.game.id);
+    if (!generator) throw new Error(`No generator for ${page.game.id}`);
+    const puzzle = await generator.generate(page.seed, {
+      level: generator.agePreset(age).level,
+      age,
+      options: loadGameOptions(page.game.id),
+      page: pageSetup,
+    });
+    return {
+      ...page,
+      worksheet: generator.getWorksheet(puzzle),
+      answerKey: includeAnswerKeys ? generator.getWorksheet(puzzle, { answerKey: true }) : null,
+    };
+  };
+
+  const buildBooklet = async () => {
+    const plannedPages = games.flatMap(game =>
+      Array.from({ length: counts[game.id] || 0 }, () => ({ game, seed: randomSeed() }))
+    );
+    if (plannedPages.length === 0) return;
+
+    setError(null);
+    setProgress({ done: 0, total: plannedPages.length });
+
+    try {
+      const rendered: RenderedPage[] = [];
+      for (const page of plannedPages) {
+        try {
+          rendered.push(await renderPage(page));
+        } catch (e) {
+          console.error(`Error generating booklet page ${pageTitle(page)}:`, e);
+        }
+        setProgress(prev => prev && { ...prev, done: prev.done + 1 });
+      }
+      if (rendered.length === 0) throw new Error('No booklet page could be generated');
+
+      const pdf = await createBookletPdf(rendered.map(page => ({
+        title: pageTitle(page),
+        rules: page.game.description,
+        worksheet: page.worksheet,
+        answerKey: page.answerKey,
+      })), { page: pageSetup });
+      pdf.save('tap-bai-tap.pdf');
+      const skipped = plannedPages.length - rendered.length;
+      if (skipped > 0) setError(`Không tạo được ${skipped} trang nên tập bài tập thiếu các trang đó.`);
+    } catch (e) {
+      console.error("Error building booklet:", e);
+      setError("Không thể tạo tập bài tập. Vui lòng thử lại.");
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="booklet-builder">
+      <h2>Tạo tập bài tập</h2>
+      <p className="booklet-hint">Chọn số trang cho mỗi trò chơi. Tất cả sẽ được gộp vào một file PDF khổ {PAPER_SIZES[pageSetup.size]} có trang bìa và số trang, ở mức hợp với bé {age} tuổi và theo các tùy chọn đã đặt cho từng trò chơi.</p>
+
+      <div className="booklet-game-list">
+        {games.map(g => (
+          <label key={g.id} className="booklet-game-row">
+            <span className="booklet-game-name">{g.icon} {g.name}</span>
+            <input
+              type="number"
+              min={0}
+              max={MAX_COPIES}
+              className="booklet-count-input"
+              value={counts[g.id] || 0}
+              onChange={e => handleCountChange(g.id, e.target.value)}
+              disabled={isBuilding}
+              aria-label={`Number of ${g.name} pages`}
+            />
+          </label>
+        ))}
+      </div>
+
+      <label className="checkbox-row">
+        <input type="checkbox" checked={includeAnswerKeys} onChange={e => setIncludeAnswerKeys(e.target.checked)} disabled={isBuilding} />
+        Thêm các trang đáp án ở cuối tập
+      </label>
+
+      <button className="btn btn-export" onClick={buildBooklet} disabled={isBuilding || totalPages === 0}>
+        {isBuilding ? `Đang tạo trang ${Math.min(progress.done + 1, progress.total)}/${progress.total}...` : `Xuất tập PDF (${totalPages} trang)`}
+      </button>
+      {error && <div className="booklet-error">{error}</div>}
+
+    </div>
+  );
+};
+
+export default BookletBuilder;
@@ -1,199 +1,109 @@
-import React, { useState, useEffect, useRef, useCallback, forwardRef, useImperativeHandle } from 'react';
-import { jsPDF } from 'jspdf';
-import html2canvas from 'html2canvas';
-import { GameComponentHandles, shuffleArray } from '../utils';
-import { GoogleGenAI, Type } from "@google/genai";
+import React, { useState, useEffect, useCallback, forwardRef, useImperativeHandle } from 'react';
+import { ExportOptions, WorksheetOptions, GameComponentHandles, GameDefinition, GameProps, buildCheckResult, checkClassName, toCheckedMap } from '../utils';
+import { Worksheet, exportWorksheetPdf } from '../pdf';
+import { clearGameState, loadGameState, useSavedGameState } from '../storage';
+import { AiCancelledError, describeAiError, useRequestSignal } from '../ai';
+import { resolveOptions } from '../options';
+import { ContentPackError } from '../content';
+import { DEFAULT_THEME, DienKiTuPuzzle, EmojiLegendItem, EmojiProblemItem, dienKiTuGenerator, optionsSchema } from '../Generators/DienKiTu';
 import '../Styles/DienKiTu.css';
 
-// Data structures for the game
-interface EmojiLegendItem {
-  emoji: string;  // The main emoji
-  symbol: string; // The corresponding symbol
+// Puzzle and progress kept in browser storage
+interface SavedState extends DienKiTuPuzzle {
+  userAnswers?: Record<number, string>; // Unset for a puzzle opened from the library
 }
-interface EmojiProblemItem {
-  id: number;
-  emoji: string;
-}
-
-// Fixed, simple symbols for children to draw
-const SYMBOLS = ['O', 'X', '+', '✓', '—'];
 
-// Gemini response schema definition
-const responseSchema = {
-    type: Type.OBJECT,
-    properties: {
-        legendEmojis: {
-            type: Type.ARRAY,
-            description: 'A list of 5 unique emoji characters that fit the theme for the legend.',
-            items: { type: Type.STRING },
-        },
-        problemEmojis: {
-            type: Type.ARRAY,
-            description: 'A list of 20 emoji characters for the game grid, related to the theme.',
-            items: { type: Type.STRING },
-        },
-    },
-    required: ['legendEmojis', 'problemEmojis'],
+// Keyboard-friendly spellings of the symbols that are hard to type
+const SYMBOL_ALIASES: Record<string, string> = { '0': 'O', 'V': '✓', '-': '—', '–': '—' };
+const normalizeSymbol = (value: string) => {
+    const upper = value.trim().toUpperCase();
+    return SYMBOL_ALIASES[upper] ?? upper;
 };
 
-// Default game data to use as a fallback for API errors
-const defaultGameData = {
-    legendEmojis: ['🍎', '🍌', '🍇', '🍓', '🍊'], // Apple, Banana, Grapes, Strawberry, Orange
-    problemEmojis: [
-        '🍎', '🍕', '🍌', '🍔', '🍇', 
-        '🍓', '🍊', '🍎', '🌭', '🍇', 
-        '🍌', '🍓', '🍟', '🍊', '🍎', 
-        '🍦', '🍇', '🍕', '🍌', '🍓'
-    ] // Mix of legend emojis and other food emojis (pizza, burger, hotdog, fries, ice cream)
-};
-
-
-const DienKiTuGame = forwardRef<GameComponentHandles>((props, ref) => {
-    const [theme, setTheme] = useState('đồ ăn');
+const DienKiTuGame = forwardRef<GameComponentHandles, GameProps>(({ seed, level, age, options, onReady, storageKey }, ref) => {
+    const [theme, setTheme] = useState(DEFAULT_THEME);
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [legend, setLegend] = useState<EmojiLegendItem[]>([]);
     const [problems, setProblems] = useState<EmojiProblemItem[]>([]);
     const [userAnswers, setUserAnswers] = useState<Record<number, string>>({});
-    const gameContentRef = useRef<HTMLDivElement>(null);
+    const [checked, setChecked] = useState<Record<string, boolean> | null>(null);
+    const nextSignal = useRequestSignal();
 
-    const loadDefaultData = useCallback(() => {
-        console.log("API limit reached or error occurred. Loading default food theme.");
-        setTheme('đồ ăn');
-
-        const shuffledSymbols = shuffleArray(SYMBOLS);
-        const newLegend = defaultGameData.legendEmojis.map((emoji, index) => ({
-            emoji: emoji,
-            symbol: shuffledSymbols[index],
-        }));
-        
-        setLegend(newLegend);
-        setProblems(defaultGameData.problemEmojis.map((emoji, i) => ({ emoji, id: i })));
-        setUserAnswers({});
-        setError(null);
-    }, []);
-
-    const generateGame = useCallback(async () => {
-        if (!theme.trim()) {
-            setError("Vui lòng nhập chủ đề để tạo trò chơi.");
-            return;
-        }
+    const generateGame = useCallback(async (seed: number) => {
+        clearGameState(storageKey);
+        setTheme(resolveOptions(optionsSchema, options).theme);
         setIsLoading(true);
         setError(null);
         
+        const signal = nextSignal();
         try {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-            const prompt = `
-              Create data for an emoji matching game for a child (5-7 years old). The theme is "${theme}".
-              1.  Create a list of 5 unique emoji characters that fit the theme. These will be used for the game's legend.
-              2.  Create a list of 20 emoji characters for the game grid. These should also be related to the theme. Some should be from the legend list, and some can be different.
-              3.  Return the entire output as a single JSON object that strictly follows the provided schema, with a 'legendEmojis' array and a 'problemEmojis' array. Do not include any text or markdown formatting outside of the JSON object.
-            `;
-
-            const response = await ai.models.generateContent({
-                model: "gemini-2.5-flash",
-                contents: prompt,
-                config: {
-                    responseMimeType: "application/json",
-                    responseSchema: responseSchema,
-                    temperature: 1.0,
-                },
-            });
-
-            const puzzleData = JSON.parse(response.text.trim());
-            if (!puzzleData.legendEmojis || puzzleData.legendEmojis.length < 5 || !puzzleData.problemEmojis || puzzleData.problemEmojis.length < 20) {
-                 throw new Error("Cấu trúc dữ liệu nhận từ AI không hợp lệ. Vui lòng tạo lại.");
-            }
-            
-            const shuffledSymbols = shuffleArray(SYMBOLS);
-            const newLegend = puzzleData.legendEmojis.map((emoji: string, index: number) => ({
-                emoji: emoji,
-                symbol: shuffledSymbols[index],
-            }));
-
-            setLegend(newLegend);
-            setProblems(puzzleData.problemEmojis.map((emoji: string, i: number) => ({ emoji, id: i })));
+            const puzzle = await dienKiTuGenerator.generate(seed, { level, age, options, signal });
+            setTheme(puzzle.theme);
+            setLegend(puzzle.legend);
+            setProblems(puzzle.problems);
             setUserAnswers({});
-
+            setChecked(null);
         } catch (e) {
+            if (e instanceof AiCancelledError) return;
             console.error("Error generating game:", e);
-            let errorMessage = "Đã xảy ra lỗi không xác định. Vui lòng thử lại.";
-            if (e instanceof Error) {
-                errorMessage = e.message;
-            }
-            
-            if (errorMessage.includes("429") || errorMessage.toUpperCase().includes("RESOURCE_EXHAUSTED")) {
-                loadDefaultData();
-            } else {
-                setError(errorMessage);
-            }
+            setError(e instanceof ContentPackError ? e.message : `${describeAiError(e)} Vui lòng thử lại.`);
         } finally {
-            setIsLoading(false);
+            if (!signal.aborted) setIsLoading(false);
         }
-    }, [theme, loadDefaultData]);
+    }, [options, storageKey, level, age, nextSignal]);
 
     useEffect(() => {
-        generateGame();
-    }, []); // Run only on initial mount with default theme
-
-    useImperativeHandle(ref, () => ({
-        generateNew: generateGame,
-        exportPdf: () => {
-            const gameElement = gameContentRef.current;
-            if (!gameElement) return;
-
-            const printContainer = document.createElement('div');
-            printContainer.classList.add('pdf-print-container');
-            
-            const gameClone = gameElement.cloneNode(true) as HTMLElement;
-            gameClone.style.width = `${gameElement.scrollWidth}px`;
-            const inputs = gameClone.querySelectorAll('input');
-            inputs.forEach(input => { input.value = ''; });
+        const saved = loadGameState<SavedState>(storageKey, dienKiTuGenerator.validatePuzzle);
+        if (saved) {
+            setTheme(saved.theme);
+            setLegend(saved.legend);
+            setProblems(saved.problems);
+            setUserAnswers(saved.userAnswers ?? {});
+            setIsLoading(false);
+        } else {
+            generateGame(seed);
+        }
+    }, []); // Run only on initial mount with default theme, unless a saved game can be restored
 
-            printContainer.appendChild(gameClone);
-            document.body.appendChild(printContainer);
+    useSavedGameState<SavedState>(
+        storageKey,
+        !isLoading && !error && problems.length > 0 ? { theme, legend, problems, userAnswers } : null
+    );
 
-            html2canvas(printContainer, { scale: 2 }).then(canvas => {
-                document.body.removeChild(printContainer);
+    useEffect(() => {
+        if (!isLoading) onReady?.();
+    }, [isLoading]);
 
-                const imgData = canvas.toDataURL('image/png');
-                const margin = 40;
-                const pdfWidth = canvas.width + margin * 2;
-                const pdfHeight = canvas.height + margin * 2;
+    const getWorksheet = (options?: WorksheetOptions): Worksheet | null =>
+        !isLoading && !error && problems.length > 0 ? dienKiTuGenerator.getWorksheet({ theme, legend, problems }, options) : null;
 
-                const pdf = new jsPDF({
-                    orientation: pdfWidth > pdfHeight ? 'landscape' : 'portrait',
-                    unit: 'pt',
-                    format: [pdfWidth, pdfHeight]
-                });
+    // Cells whose emoji is not in the legend must be left blank.
+    const checkAnswers = () => {
+        const result = buildCheckResult(problems.map(problem => {
+            const expected = legend.find(item => item.emoji === problem.emoji)?.symbol ?? '';
+            return { id: String(problem.id), correct: normalizeSymbol(userAnswers[problem.id] || '') === expected, skill: 'symbols' };
+        }));
+        setChecked(toCheckedMap(result));
+        return result;
+    };
 
-                pdf.addImage(imgData, 'PNG', margin, margin, canvas.width, canvas.height);
-                pdf.save("dien-ki-tu.pdf");
-            });
-        }
+    useImperativeHandle(ref, () => ({
+        checkAnswers,
+        generateNew: generateGame,
+        getWorksheet,
+        getPuzzle: (): DienKiTuPuzzle | null => !isLoading && !error && problems.length > 0 ? { theme, legend, problems } : null,
+        exportPdf: (options?: ExportOptions) => exportWorksheetPdf(getWorksheet, 'dien-ki-tu.pdf', dienKiTuDefinition, options)
     }));
 
     const handleInputChange = (id: number, value: string) => {
         setUserAnswers(prev => ({ ...prev, [id]: value }));
+        setChecked(null);
     };
 
     return (
         <div className="character-fill-game">
-            <div className="character-fill-controls">
-                <label htmlFor="char-fill-theme-input" style={{fontWeight: '700'}}>Chủ đề:</label>
-                <input
-                    id="char-fill-theme-input"
-                    type="text"
-                    className="theme-input"
-                    value={theme}
-                    onChange={(e) => setTheme(e.target.value)}
-                    placeholder="ví dụ: động vật, không gian, trái cây"
-                    disabled={isLoading}
-                    aria-label="Theme input for character fill game"
-                />
-            </div>
-
-            <div ref={gameContentRef} className="character-fill-main-content">
+            <div className="character-fill-main-content">
                 {isLoading ? (
                     <div className="character-fill-loader">Đang tạo câu đố với chủ đề "{theme}"...</div>
                 ) : error ? (
@@ -212,7 +122,7 @@ const DienKiTuGame = forwardRef<GameComponentHandles>((props, ref) => {
                             {problems.map(problem => (
                                 <div key={problem.id} className="char-item">
                                     <div className="char-figure-box">{problem.emoji}</div>
-                                    <div className="char-input-box">
+                                    <div className={`char-input-box ${checkClassName(checked, problem.id)}`}>
                                         <input
                                             type="text"
                                             className="char-input"
@@ -232,4 +142,9 @@ const DienKiTuGame = forwardRef<GameComponentHandles>((props, ref) => {
     );
 });
 
-export default DienKiTuGame;
\ No newline at end of file
+export const dienKiTuDefinition: GameDefinition = {
+  ...dienKiTuGenerator.info,
+  component: DienKiTuGame,
+};
+
+export default DienKiTuGame;
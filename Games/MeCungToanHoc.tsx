@@ -1,219 +1,319 @@
 import React, { useState, useEffect, useRef, useCallback, forwardRef, useImperativeHandle } from 'react';
-import { jsPDF } from 'jspdf';
-import html2canvas from 'html2canvas';
-import { GameComponentHandles, getRandomInt } from '../utils';
+import { ExportOptions, WorksheetOptions, GameComponentHandles, GameDefinition, GameProps, buildCheckResult, checkClassName, toCheckedMap } from '../utils';
+import { resolveOptions } from '../options';
+import { Worksheet, exportWorksheetPdf } from '../pdf';
+import { clearGameState, loadGameState, useSavedGameState } from '../storage';
+import { MazeConnection, MazeNode, MeCungToanHocPuzzle, NODE_HEIGHT, NODE_WIDTH, arrowGeometry, generateMaze, meCungToanHocGenerator, optionsSchema } from '../Generators/MeCungToanHoc';
+import { GRID_MARGIN } from '../mazeLayout';
+import { MAZE_OPERATIONS, MazeOperation, OPERATION_SKILLS, parseStep } from '../mazeRules';
 import '../Styles/MeCungToanHoc.css';
 
-interface MazeNode {
-  id: number;
-  value: number;
-  isInput: boolean;
-  pos: { x: number; y: number };
-}
+const BURST_ANGLES = [0, 45, 90, 135, 180, 225, 270, 315]; // Stars flying out of "Kết thúc" when it is reached
 
-interface MazeConnection {
-    from: MazeNode;
-    to: MazeNode;
-    op: string;
+// Puzzle and progress kept in browser storage
+interface SavedState extends MeCungToanHocPuzzle {
+    userAnswers?: Record<number, string>; // Unset for a puzzle opened from the library
+    path?: number[]; // Boxes picked so far in a branching maze, from "Bắt đầu"
+    operators?: Record<number, MazeOperation>; // Filled in on arrows missing their operation, by index
 }
 
-const MeCungToanHocGame = forwardRef<GameComponentHandles>((props, ref) => {
+const MeCungToanHocGame = forwardRef<GameComponentHandles, GameProps>(({ seed, level, options, page, onReady, storageKey }, ref) => {
     const [nodes, setNodes] = useState<MazeNode[]>([]);
     const [connections, setConnections] = useState<MazeConnection[]>([]);
+    const [route, setRoute] = useState<number[] | undefined>(undefined);
+    const [path, setPath] = useState<number[]>([0]);
     const [userAnswers, setUserAnswers] = useState<Record<number, string>>({});
-    const mazeContainerRef = useRef<HTMLDivElement>(null);
-    const NODE_WIDTH = 60;
-    const NODE_HEIGHT = 60;
-
-    const generateMaze = useCallback(() => {
-        const simpleMazeLayout = [
-            { pos: { x: 170, y: 20 } }, { pos: { x: 320, y: 20 } },
-            { pos: { x: 320, y: 120 } }, { pos: { x: 170, y: 220 } },
-            { pos: { x: 170, y: 320 } }, { pos: { x: 170, y: 420 } },
-            { pos: { x: 320, y: 420 } }, { pos: { x: 320, y: 520 } },
-            { pos: { x: 170, y: 620 } }, { pos: { x: 320, y: 620 } },
-        ];
-        
-        const complexMazeLayout = [
-          { pos: { x: 20, y: 20 } }, { pos: { x: 170, y: 20 } }, { pos: { x: 170, y: 120 } },
-          { pos: { x: 20, y: 220 } }, { pos: { x: 20, y: 320 } }, { pos: { x: 20, y: 420 } },
-          { pos: { x: 170, y: 420 } }, { pos: { x: 170, y: 520 } }, { pos: { x: 20, y: 620 } },
-          { pos: { x: 170, y: 620 } }, { pos: { x: 320, y: 620 } }, { pos: { x: 320, y: 520 } },
-          { pos: { x: 320, y: 420 } }, { pos: { x: 470, y: 420 } }, { pos: { x: 320, y: 320 } },
-          { pos: { x: 320, y: 220 } }, { pos: { x: 470, y: 120 } }, { pos: { x: 470, y: 20 } },
-          { pos: { x: 620, y: 20 } }, { pos: { x: 620, y: 120 } }, { pos: { x: 620, y: 220 } },
-          { pos: { x: 620, y: 320 } }, { pos: { x: 620, y: 420 } }, { pos: { x: 620, y: 520 } },
-          { pos: { x: 470, y: 620 } }, { pos: { x: 620, y: 620 } },
-        ];
-        
-        const structure = Math.random() > 0.5 ? complexMazeLayout : simpleMazeLayout;
-
-        const newNodes: MazeNode[] = [];
-        const newConnections: MazeConnection[] = [];
-        let currentValue = getRandomInt(5, 15);
-        
-        let prevNode: MazeNode = { id: 0, value: currentValue, isInput: false, pos: structure[0].pos };
-        newNodes.push(prevNode);
-
-        for (let i = 1; i < structure.length; i++) {
-            const isEndNode = i === structure.length - 1;
-            const add = Math.random() > 0.5;
-            const amount = getRandomInt(1, 9);
-            const op = `${add ? '+' : '-'}${amount}`;
-
-            if (add) {
-                currentValue += amount;
-            } else {
-                currentValue = Math.max(0, currentValue - amount);
-            }
-
-            const currentNode: MazeNode = {
-                id: i,
-                value: currentValue,
-                isInput: !isEndNode,
-                pos: structure[i].pos
-            };
-            newNodes.push(currentNode);
-            newConnections.push({ from: prevNode, to: currentNode, op });
-            prevNode = currentNode;
-        }
+    const [operators, setOperators] = useState<Record<number, MazeOperation>>({});
+    const [checked, setChecked] = useState<Record<string, boolean> | null>(null);
+    const [hint, setHint] = useState<{ step: number; revealed: boolean } | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const wrapperRef = useRef<HTMLDivElement>(null);
+    const [scale, setScale] = useState(1);
 
-        setNodes(newNodes);
-        setConnections(newConnections);
+    const generateNew = useCallback((seed: number) => {
+        clearGameState(storageKey);
+        let puzzle: MeCungToanHocPuzzle;
+        try {
+            puzzle = generateMaze(seed, resolveOptions(optionsSchema, options, level), page);
+        } catch (e) {
+            console.error("Error generating game:", e);
+            setError(e instanceof Error ? e.message : 'Không tạo được mê cung. Hãy đổi tùy chọn rồi thử lại.');
+            setNodes([]);
+            setConnections([]);
+            setRoute(undefined);
+            return;
+        }
+        setError(null);
+        setNodes(puzzle.nodes);
+        setConnections(puzzle.connections);
+        setRoute(puzzle.route);
+        setPath([0]);
         setUserAnswers({});
-    }, []);
+        setOperators({});
+        setChecked(null);
+        setHint(null);
+    }, [storageKey, level, options, page]);
 
     useEffect(() => {
-        generateMaze();
-    }, [generateMaze]);
+        const saved = loadGameState<SavedState>(storageKey, meCungToanHocGenerator.validatePuzzle);
+        if (saved) {
+            setNodes(saved.nodes);
+            setConnections(saved.connections);
+            setRoute(saved.route);
+            setPath(saved.path ?? [0]);
+            setUserAnswers(saved.userAnswers ?? {});
+            setOperators(saved.operators ?? {});
+        } else {
+            generateNew(seed);
+        }
+    }, []); // Later puzzles are requested through generateNew
+
+    useSavedGameState<SavedState>(storageKey, nodes.length > 0 ? { nodes, connections, route, userAnswers, path, operators } : null);
+
+    useEffect(() => {
+        if (nodes.length > 0) onReady?.();
+    }, [nodes]);
+
+    const getWorksheet = (options?: WorksheetOptions): Worksheet | null =>
+        nodes.length > 0 ? meCungToanHocGenerator.getWorksheet({ nodes, connections, route }, options) : null;
+
+    const stepSkill = (nodeId: number) => {
+        const op = connections.find(conn => conn.to.id === nodeId)?.op;
+        return op ? OPERATION_SKILLS[parseStep(op).operation] : 'addition';
+    };
+
+    const checkAnswers = () => {
+        if (route) {
+            // Each step of the route is right when the child took it; their wrong boxes are marked
+            const result = buildCheckResult(route.slice(1).map((id, i) => {
+                const taken = path[i + 1];
+                return { id: taken === undefined ? `step-${i + 1}` : String(taken), correct: taken === id && path[i] === route[i], skill: stepSkill(id) };
+            }));
+            setChecked(toCheckedMap(result));
+            return result;
+        }
+        const result = buildCheckResult([
+            ...nodes.filter(node => node.isInput).map(node => ({
+                id: String(node.id),
+                correct: userAnswers[node.id] === String(node.value),
+                skill: stepSkill(node.id),
+            })),
+            ...connections.flatMap((conn, index) => conn.missing ? [{
+                id: `op-${index}`,
+                correct: operators[index] === parseStep(conn.op).operation,
+                skill: OPERATION_SKILLS[parseStep(conn.op).operation],
+            }] : []),
+        ]);
+        setChecked(toCheckedMap(result));
+        return result;
+    };
 
     useImperativeHandle(ref, () => ({
-      generateNew: generateMaze,
-      exportPdf: () => {
-          const mazeElement = mazeContainerRef.current;
-          if (!mazeElement) return;
-  
-          const printContainer = document.createElement('div');
-          printContainer.classList.add('pdf-print-container');
-  
-          const mazeClone = mazeElement.cloneNode(true) as HTMLElement;
-          const inputs = mazeClone.querySelectorAll('input');
-          inputs.forEach(input => {
-              input.value = '';
-          });
-
-          // Calculate the actual bounds of the maze content
-          let computedWidth = 0;
-          let computedHeight = 0;
-          if (nodes.length > 0) {
-              let maxX = 0;
-              let maxY = 0;
-              nodes.forEach(node => {
-                  maxX = Math.max(maxX, node.pos.x + NODE_WIDTH);
-                  maxY = Math.max(maxY, node.pos.y + NODE_HEIGHT);
-              });
-              // Set size to fit content, overriding the fixed height from CSS
-              computedWidth = maxX;
-              computedHeight = maxY;
-          }
-          
-          // Apply the calculated dimensions to the cloned maze element
-          if (computedWidth > 0 && computedHeight > 0) {
-              mazeClone.style.width = `${computedWidth}px`;
-              mazeClone.style.height = `${computedHeight}px`;
-          }
-
-          printContainer.appendChild(mazeClone);
-  
-          document.body.appendChild(printContainer);
-  
-          html2canvas(printContainer, { scale: 2 }).then(canvas => {
-              document.body.removeChild(printContainer);
-  
-              const imgData = canvas.toDataURL('image/png');
-              const margin = 40; // points
-              const pdfWidth = canvas.width + margin * 2;
-              const pdfHeight = canvas.height + margin * 2;
-              
-              const pdf = new jsPDF({
-                  orientation: pdfWidth > pdfHeight ? 'landscape' : 'portrait',
-                  unit: 'pt',
-                  format: [pdfWidth, pdfHeight]
-              });
-              
-              pdf.addImage(imgData, 'PNG', margin, margin, canvas.width, canvas.height);
-              pdf.save('me-cung-toan-hoc.pdf');
-          });
-      }
+      generateNew,
+      checkAnswers,
+      getWorksheet,
+      getPuzzle: (): MeCungToanHocPuzzle | null => nodes.length > 0 ? { nodes, connections, route } : null,
+      exportPdf: (options?: ExportOptions) => exportWorksheetPdf(getWorksheet, 'me-cung-toan-hoc.pdf', meCungToanHocDefinition, options)
     }));
 
+    const { liveCheck } = resolveOptions(optionsSchema, options, level);
+
+    // Steps of the way to "Kết thúc", in order: the arrows of a path, or those of a branching maze's route
+    const steps = route
+        ? route.slice(1).map((id, i) => connections.findIndex(conn => conn.from.id === route[i] && conn.to.id === id))
+        : connections.map((_, index) => index);
+    const isStepDone = (step: number) => {
+        const index = steps[step];
+        const conn = connections[index];
+        if (route) return path[step + 1] === conn.to.id && path.slice(0, step + 1).every((id, i) => id === route[i]);
+        const operatorDone = !conn.missing || operators[index] === parseStep(conn.op).operation;
+        return operatorDone && (!conn.to.isInput || userAnswers[conn.to.id] === String(conn.to.value));
+    };
+    const nextStep = steps.findIndex((_, step) => !isStepDone(step));
+    const isComplete = nodes.length > 0 && nextStep < 0;
+
+    // The first box or arrow the child got wrong, by its id in the check results
+    const firstMistake = (() => {
+        if (!liveCheck) return null;
+        if (route) {
+            const wrong = path.findIndex((id, i) => id !== route[i]);
+            return wrong < 0 ? null : String(path[wrong]);
+        }
+        for (const [index, conn] of connections.entries()) {
+            if (conn.missing && operators[index] && operators[index] !== parseStep(conn.op).operation) return `op-${index}`;
+            const answer = userAnswers[conn.to.id];
+            if (conn.to.isInput && answer && answer !== String(conn.to.value)) return String(conn.to.id);
+        }
+        return null;
+    })();
+
+    // The arithmetic of the step the hint is on, e.g. "12 + 5 = ?", with the answer once revealed
+    const hintText = (() => {
+        if (!hint) return null;
+        const conn = connections[steps[hint.step]];
+        const { operation, operand } = parseStep(conn.op);
+        const { from, to } = conn;
+        if (hint.revealed) return `${from.value} ${operation} ${operand} = ${to.value}`;
+        return conn.missing ? `${from.value} ? ${operand} = ${to.value}` : `${from.value} ${operation} ${operand} = ?`;
+    })();
+
+    // The first click shows the arithmetic of the next step, a second one fills in its answer
+    const handleHintClick = () => {
+        if (nextStep < 0) return;
+        if (hint?.step !== nextStep || hint.revealed) {
+            setHint({ step: nextStep, revealed: false });
+            return;
+        }
+        const index = steps[nextStep];
+        const conn = connections[index];
+        if (route) {
+            setPath(route.slice(0, nextStep + 2));
+        } else {
+            if (conn.missing) setOperators(prev => ({ ...prev, [index]: parseStep(conn.op).operation }));
+            if (conn.to.isInput) setUserAnswers(prev => ({ ...prev, [conn.to.id]: String(conn.to.value) }));
+        }
+        setHint({ step: nextStep, revealed: true });
+        setChecked(null);
+    };
+
     const handleInputChange = (id: number, value: string) => {
         setUserAnswers(prev => ({...prev, [id]: value.replace(/[^0-9]/g, '')}));
+        setChecked(null);
+    }
+
+    // Each click on an arrow missing its operation shows the next one
+    const handleOperatorClick = (index: number) => {
+        const current = operators[index];
+        const next = MAZE_OPERATIONS[current ? (MAZE_OPERATIONS.indexOf(current) + 1) % MAZE_OPERATIONS.length : 0];
+        setOperators(prev => ({ ...prev, [index]: next }));
+        setChecked(null);
+    };
+
+    // A box reached by an arrow from the last one picked extends the path; a picked box takes it back there.
+    const handleNodeClick = (id: number) => {
+        const index = path.indexOf(id);
+        if (index >= 0) {
+            setPath(path.slice(0, index + 1));
+        } else if (connections.some(conn => conn.from.id === path[path.length - 1] && conn.to.id === id)) {
+            setPath([...path, id]);
+        } else {
+            return;
+        }
+        setChecked(null);
+    };
+
+    // The maze keeps its printed layout on screen, shrunk to the width available
+    const mazeWidth = Math.max(0, ...nodes.map(node => node.pos.x + NODE_WIDTH)) + GRID_MARGIN;
+    const mazeHeight = Math.max(0, ...nodes.map(node => node.pos.y + NODE_HEIGHT)) + GRID_MARGIN;
+    useEffect(() => {
+        const wrapper = wrapperRef.current;
+        if (!wrapper || mazeWidth === 0) return;
+        const fit = () => setScale(Math.min(1, wrapper.clientWidth / mazeWidth));
+        fit();
+        const observer = new ResizeObserver(fit);
+        observer.observe(wrapper);
+        return () => observer.disconnect();
+    }, [mazeWidth]);
+
+    const isTaken = (conn: MazeConnection) => path.some((id, i) => id === conn.from.id && path[i + 1] === conn.to.id);
+    const end = nodes[nodes.length - 1];
+
+    if (error) {
+        return <div className="math-maze-wrapper" ref={wrapperRef}><div className="math-maze-error">{error}</div></div>;
     }
 
     return (
-      <div className="math-maze" ref={mazeContainerRef}>
-        <svg width="100%" height="100%">
+      <div className="math-maze-wrapper" ref={wrapperRef}>
+        {route && end && (
+          <div className="maze-goal">Bấm lần lượt các ô để tìm đường duy nhất đến ô "Kết thúc" được đúng {end.value}.</div>
+        )}
+        {liveCheck && nodes.length > 0 && (
+          <div className="maze-toolbar">
+            <button className="btn maze-hint-button" onClick={handleHintClick} disabled={isComplete}>💡 Gợi ý</button>
+            {hintText && <span className="maze-hint">{hintText}</span>}
+          </div>
+        )}
+        {liveCheck && isComplete && (
+          <div className="maze-celebration" role="status">🎉 Giỏi quá! Bé đã đến ô "Kết thúc"!</div>
+        )}
+        <div className="math-maze-frame" style={{ width: mazeWidth * scale, height: mazeHeight * scale }}>
+          <div className="math-maze" style={{ width: mazeWidth, height: mazeHeight, transform: `scale(${scale})` }}>
+            <svg width="100%" height="100%">
+                {connections.map((conn, index) => {
+                    const { fromCenter, base, head, label } = arrowGeometry(conn);
+                    return (
+                        <g key={index} className={route && isTaken(conn) ? 'taken' : ''}>
+                            <line x1={fromCenter.x} y1={fromCenter.y} x2={base.x} y2={base.y} className="maze-connector-line" />
+                            <polygon points={head.map(p => `${p.x},${p.y}`).join(' ')} className="maze-arrowhead" />
+                            {!conn.missing && <text x={label.x} y={label.y} className="maze-connector-text">{conn.op}</text>}
+                        </g>
+                    );
+                })}
+            </svg>
             {connections.map((conn, index) => {
-                const fromCenter = { x: conn.from.pos.x + NODE_WIDTH / 2, y: conn.from.pos.y + NODE_HEIGHT / 2 };
-                const toCenter = { x: conn.to.pos.x + NODE_WIDTH / 2, y: conn.to.pos.y + NODE_HEIGHT / 2 };
-                const angle = Math.atan2(toCenter.y - fromCenter.y, toCenter.x - fromCenter.x);
-                const arrowLength = 30;
-                const arrowWidth = 30;
-                const arrowTipOffset = NODE_WIDTH / 2 + 3;
-                const p1 = {
-                    x: toCenter.x - arrowTipOffset * Math.cos(angle),
-                    y: toCenter.y - arrowTipOffset * Math.sin(angle)
-                };
-                const base = {
-                    x: p1.x - arrowLength * Math.cos(angle),
-                    y: p1.y - arrowLength * Math.sin(angle)
-                };
-                const p2 = {
-                    x: base.x + arrowWidth / 2 * Math.sin(angle),
-                    y: base.y - arrowWidth / 2 * Math.cos(angle)
-                };
-                const p3 = {
-                    x: base.x - arrowWidth / 2 * Math.sin(angle),
-                    y: base.y + arrowWidth / 2 * Math.cos(angle)
-                };
-                const textX = (p1.x + p2.x + p3.x) / 3;
-                const textY = (p1.y + p2.y + p3.y) / 3;
-                
+                if (!conn.missing) return null;
+                const { label } = arrowGeometry(conn);
                 return (
-                    <g key={index}>
-                        <line x1={fromCenter.x} y1={fromCenter.y} x2={base.x} y2={base.y} className="maze-connector-line" />
-                        <polygon points={`${p1.x},${p1.y} ${p2.x},${p2.y} ${p3.x},${p3.y}`} className="maze-arrowhead" />
-                        <text x={textX} y={textY} className="maze-connector-text">{conn.op}</text>
-                    </g>
+                    <button
+                      key={`op-${index}`}
+                      className={`maze-operator ${firstMistake === `op-${index}` ? 'live-mistake' : ''} ${checkClassName(checked, `op-${index}`)}`}
+                      style={{ left: `${label.x}px`, top: `${label.y}px` }}
+                      onClick={() => handleOperatorClick(index)}
+                      aria-label={`Operation of arrow ${index}`}
+                    >
+                        {operators[index] ?? '?'}{parseStep(conn.op).operand}
+                    </button>
                 );
             })}
-        </svg>
-        {nodes.map((node) => {
-            const isStart = node.id === 0;
-            const isEnd = node.id === nodes.length - 1;
-            return (
-                <div key={node.id} className="maze-node" style={{ left: `${node.pos.x}px`, top: `${node.pos.y}px`, width: `${NODE_WIDTH}px`, height: `${NODE_HEIGHT}px` }}>
-                    {isStart && <div className="maze-label">Bắt đầu</div>}
-                    {isEnd && <div className="maze-label end-label">Kết thúc</div>}
-                     <div className={`maze-square ${isStart ? 'start' : ''} ${isEnd ? 'end' : ''}`}>
-                        {node.isInput ? (
-                           <input 
-                             type="text" 
-                             className="maze-input"
-                             value={userAnswers[node.id] || ''}
-                             onChange={(e) => handleInputChange(node.id, e.target.value)}
-                             aria-label={`Maze input at position ${node.id}`}
-                            />
+            {nodes.map((node) => {
+                const isStart = node.id === 0;
+                const isEnd = node.id === end.id;
+                const isMistake = firstMistake === String(node.id);
+                const squareClassName = `maze-square ${isStart ? 'start' : ''} ${isEnd ? 'end' : ''} ${isMistake ? 'live-mistake' : ''} ${checkClassName(checked, node.id)}`;
+                return (
+                    <div key={node.id} className="maze-node" style={{ left: `${node.pos.x}px`, top: `${node.pos.y}px`, width: `${NODE_WIDTH}px`, height: `${NODE_HEIGHT}px` }}>
+                        {isStart && <div className="maze-label">Bắt đầu</div>}
+                        {isEnd && <div className="maze-label end-label">Kết thúc</div>}
+                        {isEnd && liveCheck && isComplete && (
+                            <div className="maze-burst" aria-hidden="true">
+                                {BURST_ANGLES.map(angle => <span key={angle} style={{ '--angle': `${angle}deg` } as React.CSSProperties}>⭐</span>)}
+                            </div>
+                        )}
+                        {route ? (
+                            <button
+                              className={`${squareClassName} maze-choice ${path.includes(node.id) ? 'on-path' : ''}`}
+                              onClick={() => handleNodeClick(node.id)}
+                              aria-label={`Maze box ${node.id}`}
+                            >
+                                {isStart || isEnd ? node.value : ''}
+                            </button>
                         ) : (
-                            node.value
+                            <div className={squareClassName}>
+                                {node.isInput ? (
+                                   <input
+                                     type="text"
+                                     className="maze-input"
+                                     value={userAnswers[node.id] || ''}
+                                     onChange={(e) => handleInputChange(node.id, e.target.value)}
+                                     aria-label={`Maze input at position ${node.id}`}
+                                    />
+                                ) : (
+                                    node.value
+                                )}
+                            </div>
                         )}
                     </div>
-                </div>
-            );
-        })}
+                );
+            })}
+          </div>
+        </div>
       </div>
   );
 });
 
-export default MeCungToanHocGame;
\ No newline at end of file
+export const meCungToanHocDefinition: GameDefinition = {
+  ...meCungToanHocGenerator.info,
+  component: MeCungToanHocGame,
+};
+
+export default MeCungToanHocGame;
@@ -1,153 +1,92 @@
-import React, { useState, useEffect, useRef, useCallback, forwardRef, useImperativeHandle } from 'react';
-import { jsPDF } from 'jspdf';
-import html2canvas from 'html2canvas';
-import { GameComponentHandles, getRandomInt, shuffleArray } from '../utils';
+import React, { useState, useEffect, useCallback, forwardRef, useImperativeHandle } from 'react';
+import { ExportOptions, WorksheetOptions, GameComponentHandles, GameDefinition, GameProps, buildCheckResult, toCheckedMap } from '../utils';
+import { resolveOptions } from '../options';
+import { Worksheet, exportWorksheetPdf } from '../pdf';
+import { clearGameState, loadGameState, useSavedGameState } from '../storage';
+import { Connection, connectedTo, readConnections } from '../matching';
+import MatchingBoard from '../MatchingBoard';
+import { MatchItem, NoiPhepTinhPuzzle, equationSkill, generateItems, isMatch, noiPhepTinhGenerator, optionsSchema } from '../Generators/NoiPhepTinh';
 import '../Styles/NoiPhepTinh.css';
 
-interface MatchItem {
-  id: string;
-  content: string;
-  matchId: string;
+// Puzzle and progress kept in browser storage
+interface SavedState extends NoiPhepTinhPuzzle {
+  connections?: Connection[] | Record<string, string>; // Unset for a puzzle opened from the library
 }
 
-const NoiPhepTinhGame = forwardRef<GameComponentHandles>((props, ref) => {
+const NoiPhepTinhGame = forwardRef<GameComponentHandles, GameProps>(({ seed, level, options, onReady, storageKey }, ref) => {
   const [leftItems, setLeftItems] = useState<MatchItem[]>([]);
   const [rightItems, setRightItems] = useState<MatchItem[]>([]);
-  const [selectedLeft, setSelectedLeft] = useState<MatchItem | null>(null);
-  const [connections, setConnections] = useState<Record<string, string>>({});
-  
-  const itemRefs = useRef<Record<string, HTMLDivElement | null>>({});
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const gameContentRef = useRef<HTMLDivElement>(null);
+  const [connections, setConnections] = useState<Connection[]>([]);
+  const [checked, setChecked] = useState<Record<string, boolean> | null>(null);
 
-  const generateItems = useCallback(() => {
-    const baseItems: Omit<MatchItem, 'id'>[] = Array.from({ length: 5 }, () => {
-        const a = getRandomInt(0, 5);
-        const b = getRandomInt(1, 5);
-        return { content: `${a} + ${b}`, matchId: `${a + b}` };
-    });
-    
-    const newLeftItems = baseItems.map((item, i) => ({ ...item, id: `l-${i}`}));
-    const newRightItems = shuffleArray(baseItems.map((item, i) => ({ id: `r-${i}`, content: item.matchId, matchId: item.content })));
-    setLeftItems(newLeftItems);
-    setRightItems(newRightItems);
-    setConnections({});
-    setSelectedLeft(null);
-  }, []);
-  
-  useEffect(() => {
-    generateItems();
-  }, [generateItems]);
+  const generateNew = useCallback((seed: number) => {
+    clearGameState(storageKey);
+    const puzzle = generateItems(seed, resolveOptions(optionsSchema, options, level));
+    setLeftItems(puzzle.leftItems);
+    setRightItems(puzzle.rightItems);
+    setConnections([]);
+    setChecked(null);
+  }, [storageKey, level, options]);
   
   useEffect(() => {
-      const canvas = canvasRef.current;
-      if (!canvas) return;
-      const ctx = canvas.getContext('2d');
-      if(!ctx) return;
-      
-      const { width, height } = canvas.getBoundingClientRect();
-      canvas.width = width;
-      canvas.height = height;
-      
-      ctx.clearRect(0, 0, width, height);
-      ctx.lineWidth = 4;
-      
-      for(const leftId in connections) {
-          const rightId = connections[leftId];
-          const leftEl = itemRefs.current[leftId];
-          const rightEl = itemRefs.current[rightId];
-          if(leftEl && rightEl) {
-              const rectL = leftEl.getBoundingClientRect();
-              const rectR = rightEl.getBoundingClientRect();
-              const rectCanvas = canvas.getBoundingClientRect();
-
-              const startX = rectL.right - rectCanvas.left;
-              const startY = rectL.top + rectL.height / 2 - rectCanvas.top;
-              const endX = rectR.left - rectCanvas.left;
-              const endY = rectR.top + rectR.height / 2 - rectCanvas.top;
-              
-              ctx.strokeStyle = 'var(--primary-color)';
-              
-              ctx.beginPath();
-              ctx.moveTo(startX, startY);
-              ctx.lineTo(endX, endY);
-              ctx.stroke();
-          }
-      }
-  }, [connections]);
+    const saved = loadGameState<SavedState>(storageKey, noiPhepTinhGenerator.validatePuzzle);
+    if (saved) {
+      setLeftItems(saved.leftItems);
+      setRightItems(saved.rightItems);
+      setConnections(readConnections(saved.connections));
+    } else {
+      generateNew(seed);
+    }
+  }, []); // Later puzzles are requested through generateNew
 
-  useImperativeHandle(ref, () => ({
-    generateNew: generateItems,
-    exportPdf: () => {
-      const gameElement = gameContentRef.current;
-      if (!gameElement) return;
-        
-      const printContainer = document.createElement('div');
-      printContainer.classList.add('pdf-print-container');
-      
-      const gameClone = gameElement.cloneNode(true) as HTMLElement;
-      gameClone.style.width = `${gameElement.scrollWidth}px`; // Ensure content width is fixed for PDF generation
-      const canvasToHide = gameClone.querySelector('.matching-canvas');
-      if (canvasToHide) {
-          canvasToHide.remove();
-      }
+  useSavedGameState<SavedState>(storageKey, leftItems.length > 0 ? { leftItems, rightItems, connections } : null);
 
-      printContainer.appendChild(gameClone);
-      document.body.appendChild(printContainer);
-  
-      html2canvas(printContainer, { scale: 2 }).then(canvasImg => {
-            document.body.removeChild(printContainer);
+  useEffect(() => {
+    if (leftItems.length > 0) onReady?.();
+  }, [leftItems]);
 
-            const imgData = canvasImg.toDataURL('image/png');
-            const margin = 40;
-            const pdfWidth = canvasImg.width + margin * 2;
-            const pdfHeight = canvasImg.height + margin * 2;
+  const getWorksheet = (options?: WorksheetOptions): Worksheet | null =>
+    leftItems.length > 0 ? noiPhepTinhGenerator.getWorksheet({ leftItems, rightItems }, options) : null;
 
-            const pdf = new jsPDF({
-              orientation: pdfWidth > pdfHeight ? 'landscape' : 'portrait',
-              unit: 'pt',
-              format: [pdfWidth, pdfHeight]
-            });
+  // A connection is right when the chosen card is the result the equation names.
+  const checkAnswers = () => {
+    const result = buildCheckResult(leftItems.map(item => {
+      const answers = connectedTo(connections, item.id).map(id => rightItems.find(r => r.id === id));
+      return { id: item.id, correct: answers.length > 0 && answers.every(answer => answer && isMatch(item, answer)), skill: equationSkill(item.content) };
+    }));
+    setChecked(toCheckedMap(result));
+    return result;
+  };
 
-            pdf.addImage(imgData, 'PNG', margin, margin, canvasImg.width, canvasImg.height);
-            pdf.save("noi-phep-tinh.pdf");
-      });
-    }
+  useImperativeHandle(ref, () => ({
+    generateNew,
+    checkAnswers,
+    getWorksheet,
+    getPuzzle: (): NoiPhepTinhPuzzle | null => leftItems.length > 0 ? { leftItems, rightItems } : null,
+    exportPdf: (options?: ExportOptions) => exportWorksheetPdf(getWorksheet, 'noi-phep-tinh.pdf', noiPhepTinhDefinition, options)
   }));
 
-  const handleLeftClick = (item: MatchItem) => {
-    setSelectedLeft(item);
-  }
-
-  const handleRightClick = (item: MatchItem) => {
-    if(selectedLeft) {
-      setConnections(prev => ({...prev, [selectedLeft.id]: item.id}));
-      setSelectedLeft(null);
-    }
-  }
-
-  const isSelected = (item: MatchItem) => selectedLeft?.id === item.id;
-  const itemClassName = (item: MatchItem) => `match-item ${isSelected(item) ? 'selected' : ''}`;
-
   return (
-    <div className="matching-game-container" ref={gameContentRef}>
-      <canvas ref={canvasRef} className="matching-canvas"></canvas>
-      <div className="matching-column">
-        {leftItems.map(item => (
-          <div key={item.id} ref={el => { itemRefs.current[item.id] = el; }} className={itemClassName(item)} onClick={() => handleLeftClick(item)}>
-            {item.content}
-          </div>
-        ))}
-      </div>
-      <div className="matching-column">
-        {rightItems.map(item => (
-           <div key={item.id} ref={el => { itemRefs.current[item.id] = el; }} className={itemClassName(item)} onClick={() => handleRightClick(item)}>
-            {item.content}
-          </div>
-        ))}
-      </div>
-    </div>
+    <MatchingBoard<MatchItem, MatchItem>
+      className="noi-phep-tinh-game"
+      leftItems={leftItems}
+      rightItems={rightItems}
+      renderLeft={item => item.content}
+      renderRight={item => item.content}
+      connections={connections}
+      onConnectionsChange={next => {
+        setConnections(next);
+        setChecked(null);
+      }}
+      checked={checked}
+      lineWidth={4}
+    />
   )
 });
 
-export default NoiPhepTinhGame;
\ No newline at end of file
+export const noiPhepTinhDefinition: GameDefinition = {
+  ...noiPhepTinhGenerator.info,
+  component: NoiPhepTinhGame,
+};
+
+export default NoiPhepTinhGame;
@@ -1,157 +1,80 @@
 // Fix: Corrected typo 'useImperactiveHandle' to 'useImperativeHandle' in the import statement.
-import React, { useState, useEffect, useRef, useCallback, forwardRef, useImperativeHandle } from 'react';
-import { jsPDF } from 'jspdf';
-import html2canvas from 'html2canvas';
-import { GameComponentHandles, shuffleArray } from '../utils';
-import { GoogleGenAI, Type } from "@google/genai";
+import React, { useState, useEffect, useCallback, forwardRef, useImperativeHandle } from 'react';
+import { ExportOptions, WorksheetOptions, GameComponentHandles, GameDefinition, GameProps, buildCheckResult, checkClassName, toCheckedMap } from '../utils';
+import { Worksheet, exportWorksheetPdf } from '../pdf';
+import { clearGameState, loadGameState, useSavedGameState } from '../storage';
+import { AiCancelledError, describeAiError, useRequestSignal } from '../ai';
+import { ContentPackError } from '../content';
+import { GRID_CELLS, PatternRow, ToTracNghiemPuzzle, toTracNghiemGenerator } from '../Generators/ToTracNghiem';
 import '../Styles/ToTracNghiem.css';
 
-// Gemini response schema definition
-const responseSchema = {
-  type: Type.OBJECT,
-  properties: {
-    grid: {
-      type: Type.ARRAY,
-      description: 'An array of 25 numbers, where 1 represents a filled cell and 0 an empty cell, forming the character on a 5x5 grid.',
-      items: { type: Type.INTEGER },
-    },
-  },
-  required: ['grid'],
-};
-
-// Default patterns to use as a fallback for API errors
-const defaultPatterns = [
-  [0,1,1,1,0, 1,0,0,0,1, 1,1,1,1,1, 1,0,0,0,1, 1,0,0,0,1], // A
-  [1,1,1,1,0, 1,0,0,0,1, 1,1,1,1,0, 1,0,0,0,1, 1,1,1,1,0], // B
-  [0,1,1,1,0, 1,0,0,0,0, 1,0,0,0,0, 1,0,0,0,0, 0,1,1,1,0], // C
-  [1,1,1,1,1, 1,0,0,0,0, 1,1,1,1,0, 1,0,0,0,0, 1,1,1,1,1], // E
-  [0,1,1,1,0, 1,0,0,0,0, 0,1,1,1,0, 0,0,0,0,1, 0,1,1,1,0], // S
-  [1,1,1,1,1, 1,0,0,0,0, 1,1,1,1,0, 1,0,0,0,0, 1,0,0,0,0], // F
-  [1,0,0,0,1, 1,0,0,0,1, 1,1,1,1,1, 0,0,0,0,1, 0,0,0,0,1], // 4
-  [1,1,1,1,1, 1,0,0,0,0, 1,1,1,1,0, 0,0,0,0,1, 1,1,1,1,0], // 5
-];
-
-interface PatternRow {
-    id: number;
-    model: number[];
-    userGrid: number[];
-}
-
-// Helper to format default patterns for the state
-const generateDefaultPatterns = (): PatternRow[] => {
-    return defaultPatterns.map((model, index) => ({
-        id: index,
-        model: model,
-        userGrid: Array(25).fill(0),
-    }));
-};
-
-const ToTracNghiemGame = forwardRef<GameComponentHandles>((props, ref) => {
+const ToTracNghiemGame = forwardRef<GameComponentHandles, GameProps>(({ seed, level, options, onReady, storageKey }, ref) => {
     const [patterns, setPatterns] = useState<PatternRow[]>([]);
+    const [checked, setChecked] = useState<Record<string, boolean> | null>(null);
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
-    const gameContentRef = useRef<HTMLDivElement>(null);
+    const nextSignal = useRequestSignal();
 
-    const generateNew = useCallback(async () => {
+    const generateNew = useCallback(async (seed: number) => {
+        clearGameState(storageKey);
         setIsLoading(true);
         setError(null);
+        setChecked(null);
 
+        const signal = nextSignal();
         try {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-            const characters = '0123456789abcdefghijklmnopqrstuvwxyz'.split('');
-            const selectedChars = shuffleArray(characters).slice(0, 8);
-
-            const patternPromises = selectedChars.map(char => {
-                const prompt = `Generate a pixel art representation of the character '${char}' on a 5x5 grid. The output should be a single JSON object containing a 'grid' property, which is an array of 25 numbers (either 0 for an empty cell or 1 for a filled cell). Do not include any text or markdown formatting outside of the JSON object.`;
-                
-                return ai.models.generateContent({
-                    model: "gemini-2.5-flash",
-                    contents: prompt,
-                    config: {
-                        responseMimeType: "application/json",
-                        responseSchema: responseSchema,
-                    },
-                });
-            });
-
-            const responses = await Promise.all(patternPromises);
-            
-            const newPatterns = responses.map((response, index) => {
-                const data = JSON.parse(response.text.trim());
-                if (!data.grid || !Array.isArray(data.grid) || data.grid.length !== 25) {
-                    throw new Error(`Invalid grid data received for character '${selectedChars[index]}'.`);
-                }
-                return {
-                    id: index,
-                    model: data.grid,
-                    userGrid: Array(25).fill(0),
-                };
-            });
-
-            setPatterns(newPatterns);
-
+            const puzzle = await toTracNghiemGenerator.generate(seed, { level, options, signal });
+            setPatterns(puzzle.patterns);
         } catch (e) {
+            if (e instanceof AiCancelledError) return;
             console.error("Error generating patterns:", e);
-            let errorMessage = "Đã xảy ra lỗi khi tạo mẫu. Vui lòng thử lại.";
-            if (e instanceof Error) {
-                errorMessage = e.message;
-            }
-            
-            // Check for rate limit error and use fallback
-            if (errorMessage.includes("429") || errorMessage.toUpperCase().includes("RESOURCE_EXHAUSTED")) {
-                console.log("API limit reached. Using default patterns.");
-                setPatterns(generateDefaultPatterns());
-                setError(null); // Clear any previous errors
-            } else {
-                setError(errorMessage);
-            }
+            setError(e instanceof ContentPackError ? e.message : `${describeAiError(e)} Vui lòng thử lại.`);
         } finally {
+            if (!signal.aborted) setIsLoading(false);
+        }
+    }, [storageKey, level, options, nextSignal]);
+
+    useEffect(() => {
+        const saved = loadGameState<ToTracNghiemPuzzle>(storageKey, toTracNghiemGenerator.validatePuzzle);
+        if (saved) {
+            setPatterns(saved.patterns);
             setIsLoading(false);
+        } else {
+            generateNew(seed);
         }
-    }, []);
+    }, []); // Later puzzles are requested through generateNew
+
+    useSavedGameState<ToTracNghiemPuzzle>(storageKey, !isLoading && patterns.length > 0 ? { patterns } : null);
 
     useEffect(() => {
-        generateNew();
-    }, [generateNew]);
+        if (!isLoading) onReady?.();
+    }, [isLoading]);
+
+    const getWorksheet = (options?: WorksheetOptions): Worksheet | null =>
+        !isLoading && !error && patterns.length > 0 ? toTracNghiemGenerator.getWorksheet({ patterns }, options) : null;
+
+    const checkAnswers = () => {
+        const result = buildCheckResult(patterns.map(row => ({
+            id: String(row.id),
+            correct: row.userGrid.every((dot, index) => dot === row.model[index]),
+            skill: 'copying',
+        })));
+        setChecked(toCheckedMap(result));
+        return result;
+    };
 
     useImperativeHandle(ref, () => ({
+        checkAnswers,
         generateNew,
-        exportPdf: () => {
-            const gameElement = gameContentRef.current;
-            if (!gameElement) return;
-
-            const printContainer = document.createElement('div');
-            printContainer.classList.add('pdf-print-container');
-
-            const gameClone = gameElement.cloneNode(true) as HTMLElement;
-            
-            const userDots = gameClone.querySelectorAll('.user-grid .pattern-dot');
-            userDots.forEach(dot => dot.classList.remove('filled'));
-
-            printContainer.appendChild(gameClone);
-            document.body.appendChild(printContainer);
-
-            html2canvas(printContainer, { scale: 2 }).then(canvas => {
-                document.body.removeChild(printContainer);
-
-                const imgData = canvas.toDataURL('image/png');
-                const margin = 40;
-                const pdfWidth = canvas.width + margin * 2;
-                const pdfHeight = canvas.height + margin * 2;
-                
-                const pdf = new jsPDF({
-                    orientation: pdfWidth > pdfHeight ? 'landscape' : 'portrait',
-                    unit: 'pt',
-                    format: [pdfWidth, pdfHeight]
-                });
-                
-                pdf.addImage(imgData, 'PNG', margin, margin, canvas.width, canvas.height);
-                pdf.save('to-trac-nghiem.pdf');
-            });
-        }
+        getWorksheet,
+        getPuzzle: (): ToTracNghiemPuzzle | null => !isLoading && patterns.length > 0
+            ? { patterns: patterns.map(row => ({ ...row, userGrid: Array(GRID_CELLS).fill(0) })) }
+            : null,
+        exportPdf: (options?: ExportOptions) => exportWorksheetPdf(getWorksheet, 'to-trac-nghiem.pdf', toTracNghiemDefinition, options)
     }));
 
     const handleDotClick = (rowId: number, dotIndex: number) => {
+        setChecked(null);
         setPatterns(prevPatterns =>
             prevPatterns.map(row => {
                 if (row.id === rowId) {
@@ -186,9 +109,9 @@ const ToTracNghiemGame = forwardRef<GameComponentHandles>((props, ref) => {
     }
 
     return (
-        <div className="multiple-choice-coloring-game" ref={gameContentRef}>
+        <div className="multiple-choice-coloring-game">
             {patterns.map(row => (
-                <div key={row.id} className="pattern-row">
+                <div key={row.id} className={`pattern-row ${checkClassName(checked, row.id)}`}>
                     {renderGrid(row.model, false)}
                     <div className="pattern-separator">➔</div>
                     {renderGrid(row.userGrid, true, row.id)}
@@ -198,4 +121,9 @@ const ToTracNghiemGame = forwardRef<GameComponentHandles>((props, ref) => {
     );
 });
 
-export default ToTracNghiemGame;
\ No newline at end of file
+export const toTracNghiemDefinition: GameDefinition = {
+  ...toTracNghiemGenerator.info,
+  component: ToTracNghiemGame,
+};
+
+export default ToTracNghiemGame;
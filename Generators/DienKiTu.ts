@@ -0,0 +1,226 @@
+import { DifficultyModel, PuzzleGenerator, byAge, createRandom, describeAge, levelSettings, shuffleArray } from '../utils';
+import { OptionsSchema, resolveOptions } from '../options';
+import { PdfCanvas, TextStyle } from '../pdf';
+import { Type } from "@google/genai";
+import { sanitizeTheme, themeField } from '../ai';
+import { Validated, dedupeBy, fail, isListOf, isNonEmptyString, isRecord, keepUnique, keepValid, requireArray, requireRecord, takeExactly } from '../validation';
+import { generateContent } from '../content';
+
+// Data structures for the game
+export interface EmojiLegendItem {
+  emoji: string;  // The main emoji
+  symbol: string; // The corresponding symbol
+}
+export interface EmojiProblemItem {
+  id: number;
+  emoji: string;
+}
+
+export interface DienKiTuPuzzle {
+  theme: string;
+  legend: EmojiLegendItem[];
+  problems: EmojiProblemItem[];
+}
+
+export const DEFAULT_THEME = 'đồ ăn';
+
+const GAME_ID = 'character-fill';
+
+// Fixed, simple symbols for children to draw
+const SYMBOLS = ['O', 'X', '+', '✓', '—'];
+
+// Gemini response schema definition
+const responseSchema = {
+    type: Type.OBJECT,
+    properties: {
+        legendEmojis: {
+            type: Type.ARRAY,
+            description: 'A list of 5 unique emoji characters that fit the theme for the legend.',
+            items: { type: Type.STRING },
+        },
+        problemEmojis: {
+            type: Type.ARRAY,
+            description: 'A list of 20 emoji characters for the game grid, related to the theme.',
+            items: { type: Type.STRING },
+        },
+    },
+    required: ['legendEmojis', 'problemEmojis'],
+};
+
+interface EmojiData {
+    legendEmojis: string[];
+    problemEmojis: string[];
+}
+
+// Printed layout, matching the desktop styles: rows of five emoji cards with a box below each.
+const COLUMNS = 5;
+const COLUMN_WIDTH = 92;
+const COLUMN_GAP = 10;
+const BOX_SIZE = 60;
+const CARD_HEIGHT = BOX_SIZE * 2 + 5;
+const SHEET_WIDTH = COLUMNS * (COLUMN_WIDTH + COLUMN_GAP) - COLUMN_GAP;
+
+// The PDF font has no tick, so it is drawn as two strokes.
+const drawSymbol = (canvas: PdfCanvas, symbol: string, cx: number, cy: number, style: TextStyle) => {
+    if (symbol !== '✓') {
+        canvas.text(symbol, cx, cy, style);
+        return;
+    }
+    const stroke = { stroke: style.color, lineWidth: 4 };
+    canvas.line({ x: cx - 11, y: cy }, { x: cx - 3, y: cy + 9 }, stroke);
+    canvas.line({ x: cx - 3, y: cy + 9 }, { x: cx + 12, y: cy - 10 }, stroke);
+};
+
+const LEGEND_SIZE = SYMBOLS.length;
+const PROBLEM_COUNT = 20;
+
+export interface DienKiTuSettings {
+  symbols: number; // Legend entries used, out of LEGEND_SIZE
+  cells: number; // Grid cells used, out of PROBLEM_COUNT
+}
+
+export const difficulty: DifficultyModel<DienKiTuSettings> = {
+  levels: [
+    { symbols: 3, cells: 10 },
+    { symbols: 4, cells: 15 },
+    { symbols: 5, cells: 20 },
+  ],
+  defaultLevel: 3,
+  describe: ({ symbols, cells }) => [`${symbols} kí hiệu trong bảng`, `${cells} ô cần điền`],
+  secondsPerAnswer: 6,
+};
+
+export interface DienKiTuOptions extends DienKiTuSettings {
+  theme: string;
+}
+
+export const optionsSchema: OptionsSchema<DienKiTuOptions> = {
+  fields: [
+    themeField('ví dụ: động vật, phương tiện'),
+    { type: 'number', key: 'symbols', label: 'Số kí hiệu', min: 2, max: LEGEND_SIZE },
+    { type: 'number', key: 'cells', label: 'Số ô cần điền', min: COLUMNS, max: PROBLEM_COUNT },
+  ],
+  defaults: level => ({ theme: DEFAULT_THEME, ...levelSettings(difficulty, level) }),
+};
+
+// Repeated legend emojis would share two symbols, so they are replaced by other emojis from the grid.
+const validateEmojis = (data: unknown): Validated<EmojiData> => {
+    const repairs: string[] = [];
+    const root = requireRecord(data, 'the puzzle');
+
+    const problemEmojis = takeExactly(
+        keepValid(requireArray(root.problemEmojis, 'problemEmojis'), isNonEmptyString, 'grid emojis', repairs).map(e => e.trim()),
+        PROBLEM_COUNT, 'grid emojis', repairs
+    );
+
+    const legendEmojis = keepUnique(
+        keepValid(requireArray(root.legendEmojis, 'legendEmojis'), isNonEmptyString, 'legend emojis', repairs).map(e => e.trim()),
+        e => e, 'legend emojis', repairs
+    ).slice(0, LEGEND_SIZE);
+    if (legendEmojis.length < LEGEND_SIZE) {
+        const spares = dedupeBy(problemEmojis.filter(e => !legendEmojis.includes(e)), e => e);
+        const added = spares.slice(0, LEGEND_SIZE - legendEmojis.length);
+        legendEmojis.push(...added);
+        if (added.length > 0) repairs.push(`Filled the legend with ${added.length} emojis from the grid.`);
+    }
+    if (legendEmojis.length < LEGEND_SIZE) fail(`Expected ${LEGEND_SIZE} different legend emojis.`);
+    if (!problemEmojis.some(e => legendEmojis.includes(e))) fail("No grid emoji appears in the legend.");
+
+    return { value: { legendEmojis, problemEmojis }, repairs };
+};
+
+const buildPrompt = (topic: string, childAge: string) => `
+              Create data for an emoji matching game for a child ${childAge}. The theme is "${topic}".
+              1.  Create a list of 5 unique emoji characters that fit the theme. These will be used for the game's legend.
+              2.  Create a list of 20 emoji characters for the game grid. These should also be related to the theme. Some should be from the legend list, and some can be different.
+              3.  Return the entire output as a single JSON object that strictly follows the provided schema, with a 'legendEmojis' array and a 'problemEmojis' array. Do not include any text or markdown formatting outside of the JSON object.
+            `;
+
+const isLegendItem = (item: unknown): item is EmojiLegendItem =>
+  isRecord(item) && typeof item.emoji === 'string' && typeof item.symbol === 'string';
+const isProblem = (item: unknown): item is EmojiProblemItem => isRecord(item) && Number.isInteger(item.id) && typeof item.emoji === 'string';
+
+// A puzzle from a library file or saved state, keeping only the fields the game uses.
+const parsePuzzle = (value: unknown): DienKiTuPuzzle | null =>
+  isRecord(value) && typeof value.theme === 'string' && isListOf(value.legend, isLegendItem) && isListOf(value.problems, isProblem)
+    ? {
+      theme: value.theme,
+      legend: value.legend.map(({ emoji, symbol }) => ({ emoji, symbol })),
+      problems: value.problems.map(({ id, emoji }) => ({ id, emoji })),
+    }
+    : null;
+
+export const dienKiTuGenerator: PuzzleGenerator<DienKiTuPuzzle, DienKiTuSettings, DienKiTuOptions> = {
+  info: {
+    id: GAME_ID,
+    name: 'Điền kí tự',
+    description: 'Dựa vào bảng quy đổi, điền ký tự tương ứng với mỗi hình vào ô trống bên dưới.',
+    ageRange: { min: 5, max: 7 },
+    icon: '✏️',
+    emojiPictures: true,
+  },
+  difficulty,
+  optionsSchema,
+  agePreset: age => ({
+    level: byAge(age, [1, 1, 1, 1, 2, 3]),
+    pictureScale: byAge(age, [1.25, 1.25, 1.25, 1]),
+    reading: true,
+  }),
+  generate: async (seed, { level, age, options, signal } = {}) => {
+    const random = createRandom(seed);
+    const { theme, symbols, cells } = resolveOptions(optionsSchema, options, level);
+    const topic = sanitizeTheme(theme) || DEFAULT_THEME;
+    const item = await generateContent({
+      key: GAME_ID,
+      prompt: buildPrompt(topic, describeAge(dienKiTuGenerator.info.ageRange, age)),
+      schema: responseSchema,
+      temperature: 1.0,
+      signal,
+      validate: validateEmojis,
+    }, random, topic);
+    const shuffledSymbols = shuffleArray(SYMBOLS, random);
+    const problemEmojis = item.value.problemEmojis.slice(0, cells);
+    // A shorter legend keeps the emojis the grid uses most, so few cells are left blank
+    const uses = (emoji: string) => problemEmojis.filter(e => e === emoji).length;
+    const legendEmojis = [...item.value.legendEmojis].sort((a, b) => uses(b) - uses(a)).slice(0, symbols);
+    return {
+      theme: item.theme ?? topic,
+      legend: legendEmojis.map((emoji, index) => ({ emoji, symbol: shuffledSymbols[index] })),
+      problems: problemEmojis.map((emoji, i) => ({ emoji, id: i })),
+    };
+  },
+  validatePuzzle: parsePuzzle,
+  getWorksheet: ({ legend, problems }, { answerKey = false } = {}) => {
+    const gridTop = CARD_HEIGHT + 35;
+    const boxStyle = { stroke: '#cccccc', lineWidth: 2 };
+    const symbolStyle: TextStyle = { size: 28, bold: true, align: 'center' };
+    // Returns the centre of the card's lower box
+    const drawCard = (canvas: PdfCanvas, index: number, top: number, emoji: string) => {
+      const cx = (index % COLUMNS) * (COLUMN_WIDTH + COLUMN_GAP) + COLUMN_WIDTH / 2;
+      const y = top + Math.floor(index / COLUMNS) * (CARD_HEIGHT + COLUMN_GAP);
+      canvas.emoji(emoji, cx, y + BOX_SIZE / 2, 34);
+      canvas.rect(cx - BOX_SIZE / 2, y + BOX_SIZE + 5, BOX_SIZE, BOX_SIZE, boxStyle, 8);
+      return { x: cx, y: y + BOX_SIZE * 1.5 + 5 };
+    };
+    const rowCount = Math.ceil(problems.length / COLUMNS);
+    return {
+      width: SHEET_WIDTH,
+      height: gridTop + rowCount * (CARD_HEIGHT + COLUMN_GAP) - COLUMN_GAP,
+      // The first row stays with the legend
+      breaks: Array.from({ length: rowCount - 1 }, (_, row) => gridTop + (row + 1) * (CARD_HEIGHT + COLUMN_GAP)),
+      draw: canvas => {
+        legend.forEach(({ emoji, symbol }, index) => {
+          const box = drawCard(canvas, index, 0, emoji);
+          drawSymbol(canvas, symbol, box.x, box.y, { ...symbolStyle, color: '#333333' });
+        });
+        canvas.line({ x: 0, y: CARD_HEIGHT + 15 }, { x: SHEET_WIDTH, y: CARD_HEIGHT + 15 }, { stroke: '#eeeeee', lineWidth: 2 });
+        problems.forEach((problem, index) => {
+          const box = drawCard(canvas, index, gridTop, problem.emoji);
+          // Emojis that are not in the legend stay blank in the answer key too
+          const symbol = legend.find(item => item.emoji === problem.emoji)?.symbol;
+          if (answerKey && symbol) drawSymbol(canvas, symbol, box.x, box.y, { ...symbolStyle, color: '#ff7043' });
+        });
+      },
+    };
+  },
+};
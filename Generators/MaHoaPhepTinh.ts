@@ -0,0 +1,278 @@
+import { DifficultyModel, PuzzleGenerator, byAge, createRandom, describeAge, levelSettings } from '../utils';
+import { OPERATION_CHOICES, OptionsSchema, resolveOptions } from '../options';
+import { Type } from "@google/genai";
+import { sanitizeTheme, themeField } from '../ai';
+import { Validated, fail, isIntegerInRange, isListOf, isNonEmptyString, isRecord, keepUnique, keepValid, requireArray, requireRecord, takeExactly } from '../validation';
+import { generateContent } from '../content';
+
+// Data structures for the game
+export interface LegendItem {
+  icon: string; // The emoji character
+  value: number;
+}
+
+export interface SymbolProblem {
+    id: number;
+    operand1: string;
+    operand2: string;
+    operator: '+' | '-';
+    result: number;
+}
+
+// Fix: Define a type for game data to ensure operator is correctly typed as '+' or '-'.
+// This resolves a TypeScript error and improves type safety for API responses.
+interface GameData {
+  iconMap: LegendItem[];
+  problems: Omit<SymbolProblem, 'id'>[];
+}
+
+export interface MaHoaPhepTinhPuzzle {
+  theme: string;
+  legend: LegendItem[];
+  problems: SymbolProblem[];
+}
+
+export const DEFAULT_THEME = 'động vật';
+
+const GAME_ID = 'symbol-math';
+
+// Gemini response schema definition
+const responseSchema = {
+  type: Type.OBJECT,
+  properties: {
+    iconMap: {
+      type: Type.ARRAY,
+      description: 'A map of 9 unique emojis to unique numbers from 1 to 9.',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          icon: { type: Type.STRING, description: 'A single, unique emoji character that fits the theme (e.g., "🐶", "🍎").' },
+          value: { type: Type.INTEGER, description: 'The unique number assigned to the icon (from 1 to 9).' },
+        },
+        required: ['icon', 'value'],
+      },
+    },
+    problems: {
+      type: Type.ARRAY,
+      description: 'A list of 12 simple math problems with a mix of addition and subtraction, using the emojis as operands.',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          operand1: { type: Type.STRING, description: 'The emoji character of the first operand.' },
+          operand2: { type: Type.STRING, description: 'The emoji character of the second operand.' },
+          operator: { type: Type.STRING, description: 'The operator, either "+" or "-".' },
+          result: { type: Type.INTEGER, description: 'The correct result of the operation.' },
+        },
+        required: ['operand1', 'operand2', 'operator', 'result'],
+      },
+    },
+  },
+  required: ['iconMap', 'problems'],
+};
+
+const LEGEND_SIZE = 9;
+const MIN_PROBLEMS = 8;
+const MAX_PROBLEMS = 12;
+
+export interface MaHoaPhepTinhSettings {
+  problems: number; // At most MAX_PROBLEMS
+  operations: SymbolProblem['operator'][];
+}
+
+export const difficulty: DifficultyModel<MaHoaPhepTinhSettings> = {
+  levels: [
+    { problems: 4, operations: ['+'] },
+    { problems: 6, operations: ['+'] },
+    { problems: 8, operations: ['+', '-'] },
+    { problems: 12, operations: ['+', '-'] },
+  ],
+  defaultLevel: 4,
+  describe: ({ problems, operations }) => [`${problems} phép tính`, `Phép tính: ${operations.join(' và ')}`],
+  secondsPerAnswer: 15,
+};
+
+export interface MaHoaPhepTinhOptions extends MaHoaPhepTinhSettings {
+  theme: string;
+}
+
+export const optionsSchema: OptionsSchema<MaHoaPhepTinhOptions> = {
+  fields: [
+    themeField('ví dụ: động vật, không gian, trái cây'),
+    { type: 'number', key: 'problems', label: 'Số phép tính', min: 2, max: MAX_PROBLEMS },
+    { type: 'multi', key: 'operations', label: 'Phép tính', choices: OPERATION_CHOICES },
+  ],
+  defaults: level => ({ theme: DEFAULT_THEME, ...levelSettings(difficulty, level) }),
+};
+
+// Subtractions become additions of the same icons when the level has no subtraction.
+const fitOperations = (problems: GameData['problems'], iconMap: LegendItem[], operations: SymbolProblem['operator'][]) => {
+  const values = new Map(iconMap.map(item => [item.icon, item.value]));
+  return problems.map(p => operations.includes(p.operator) ? p : {
+    ...p,
+    operator: '+' as const,
+    result: values.get(p.operand1)! + values.get(p.operand2)!,
+  });
+};
+
+// Icons and operators can be checked, and every result can be recomputed from the legend.
+const validateGameData = (data: unknown): Validated<GameData> => {
+  const repairs: string[] = [];
+  const root = requireRecord(data, 'the puzzle');
+
+  const isLegendItem = (item: unknown): item is LegendItem => isRecord(item) && isNonEmptyString(item.icon);
+  const entries = keepUnique(
+    keepValid(requireArray(root.iconMap, 'iconMap'), isLegendItem, 'legend entries', repairs).map(item => ({ ...item, icon: item.icon.trim() })),
+    item => item.icon, 'legend icons', repairs
+  );
+  const candidates = takeExactly(entries, LEGEND_SIZE, 'legend icons', repairs);
+
+  // Values must be 1-9 and unique; out-of-range or repeated ones get the values nobody took
+  const taken = new Set<number>();
+  const needsValue = candidates.map(item => {
+    if (!isIntegerInRange(item.value, 1, LEGEND_SIZE) || taken.has(item.value)) return true;
+    taken.add(item.value);
+    return false;
+  });
+  const freeValues = Array.from({ length: LEGEND_SIZE }, (_, i) => i + 1).filter(v => !taken.has(v));
+  const iconMap = candidates.map((item, i) => needsValue[i] ? { icon: item.icon, value: freeValues.shift()! } : { icon: item.icon, value: item.value });
+  const reassigned = needsValue.filter(Boolean).length;
+  if (reassigned > 0) repairs.push(`Gave ${reassigned} legend icons an unused value.`);
+
+  const values = new Map(iconMap.map(item => [item.icon, item.value]));
+  const isProblem = (p: unknown): p is GameData['problems'][number] =>
+    isRecord(p) && values.has(String(p.operand1).trim()) && values.has(String(p.operand2).trim()) && (p.operator === '+' || p.operator === '-');
+  const validProblems = keepValid(requireArray(root.problems, 'problems'), isProblem, 'problems', repairs);
+  if (validProblems.length < MIN_PROBLEMS) fail(`Expected at least ${MIN_PROBLEMS} problems, got ${validProblems.length} usable.`);
+
+  let swapped = 0;
+  let recomputed = 0;
+  const problems = validProblems.slice(0, MAX_PROBLEMS).map(p => {
+    let operand1 = p.operand1.trim();
+    let operand2 = p.operand2.trim();
+    // Subtraction must not go below zero
+    if (p.operator === '-' && values.get(operand1)! < values.get(operand2)!) {
+      [operand1, operand2] = [operand2, operand1];
+      swapped++;
+    }
+    const a = values.get(operand1)!;
+    const b = values.get(operand2)!;
+    const result = p.operator === '+' ? a + b : a - b;
+    if (result !== p.result) recomputed++;
+    return { operand1, operand2, operator: p.operator, result };
+  });
+  if (swapped > 0) repairs.push(`Swapped the operands of ${swapped} subtractions with a negative result.`);
+  if (recomputed > 0) repairs.push(`Recomputed ${recomputed} wrong results.`);
+
+  return { value: { iconMap, problems }, repairs };
+};
+
+// Printed layout, matching the desktop styles: the legend above two columns of problems.
+const LEGEND_WIDTH = 60;
+const LEGEND_HEIGHT = 75;
+const LEGEND_GAP = 8;
+const PROBLEMS_TOP = LEGEND_HEIGHT + 50;
+const BOX_SIZE = 60;
+const SIGN_WIDTH = 32;
+const ROW_WIDTH = BOX_SIZE * 3 + SIGN_WIDTH * 2;
+const ROW_GAP = 15;
+const COLUMN_GAP = 30;
+const SHEET_WIDTH = Math.max(ROW_WIDTH * 2 + COLUMN_GAP, LEGEND_SIZE * (LEGEND_WIDTH + LEGEND_GAP) - LEGEND_GAP);
+
+const buildPrompt = (topic: string, operations: SymbolProblem['operator'][], childAge: string) => `
+              Create a fun emoji math worksheet for a child ${childAge}. The theme is "${topic}".
+              1. Generate a list of 9 unique, simple, and visually distinct emojis that fit the theme "${topic}".
+              2. Assign a unique number from 1 to 9 to each emoji.
+              3. Create a list of 12 simple math problems using the emojis as operands.
+              4. ${operations.includes('-')
+                ? 'The problems must be a mix of both addition (+) and subtraction (-). For subtraction, ensure the result is not negative.'
+                : 'All problems must be additions (+).'}
+              5. The 'icon' for each item must be a single emoji character (e.g., "🐶", "🍎").
+              6. Return the entire output as a single JSON object that strictly follows the provided schema. Do not include any text or markdown formatting outside of the JSON object.
+            `;
+
+const isLegendItem = (item: unknown): item is LegendItem => isRecord(item) && typeof item.icon === 'string' && Number.isInteger(item.value);
+const isProblem = (item: unknown): item is SymbolProblem =>
+  isRecord(item) && Number.isInteger(item.id) && typeof item.operand1 === 'string' && typeof item.operand2 === 'string'
+  && (item.operator === '+' || item.operator === '-') && Number.isInteger(item.result);
+
+// A puzzle from a library file or saved state, keeping only the fields the game uses.
+const parsePuzzle = (value: unknown): MaHoaPhepTinhPuzzle | null =>
+  isRecord(value) && typeof value.theme === 'string' && isListOf(value.legend, isLegendItem) && isListOf(value.problems, isProblem)
+    ? {
+      theme: value.theme,
+      legend: value.legend.map(({ icon, value }) => ({ icon, value })),
+      problems: value.problems.map(({ id, operand1, operand2, operator, result }) => ({ id, operand1, operand2, operator, result })),
+    }
+    : null;
+
+export const maHoaPhepTinhGenerator: PuzzleGenerator<MaHoaPhepTinhPuzzle, MaHoaPhepTinhSettings, MaHoaPhepTinhOptions> = {
+  info: {
+    id: GAME_ID,
+    name: 'Mã hóa phép tính',
+    description: 'Dựa vào bảng quy đổi các biểu tượng thành số, hãy giải các phép tính bên dưới.',
+    ageRange: { min: 5, max: 7 },
+    icon: '🎁',
+    emojiPictures: true,
+  },
+  difficulty,
+  optionsSchema,
+  agePreset: age => ({
+    level: byAge(age, [1, 1, 1, 2, 3, 4]),
+    pictureScale: 1,
+    reading: true,
+  }),
+  generate: async (seed, { level, age, options, signal } = {}) => {
+    const { theme, problems, operations } = resolveOptions(optionsSchema, options, level);
+    const topic = sanitizeTheme(theme) || DEFAULT_THEME;
+    const item = await generateContent({
+      key: GAME_ID,
+      prompt: buildPrompt(topic, operations, describeAge(maHoaPhepTinhGenerator.info.ageRange, age)),
+      schema: responseSchema,
+      temperature: 1.0,
+      signal,
+      validate: validateGameData,
+    }, createRandom(seed), topic);
+    return {
+      theme: item.theme ?? topic,
+      legend: item.value.iconMap,
+      problems: fitOperations(item.value.problems.slice(0, problems), item.value.iconMap, operations).map((p, i) => ({ ...p, id: i })),
+    };
+  },
+  validatePuzzle: parsePuzzle,
+  getWorksheet: ({ legend, problems }, { answerKey = false } = {}) => {
+    const rowCount = Math.ceil(problems.length / 2);
+    return {
+      width: SHEET_WIDTH,
+      height: PROBLEMS_TOP + rowCount * (BOX_SIZE + ROW_GAP) - ROW_GAP,
+      // The first row stays with the legend
+      breaks: Array.from({ length: rowCount - 1 }, (_, row) => PROBLEMS_TOP + (row + 1) * (BOX_SIZE + ROW_GAP)),
+      draw: canvas => {
+        const legendLeft = (SHEET_WIDTH - legend.length * (LEGEND_WIDTH + LEGEND_GAP) + LEGEND_GAP) / 2;
+        legend.forEach((item, index) => {
+          const x = legendLeft + index * (LEGEND_WIDTH + LEGEND_GAP);
+          canvas.rect(x, 0, LEGEND_WIDTH, LEGEND_HEIGHT, { stroke: '#dddddd' }, 8);
+          canvas.emoji(item.icon, x + LEGEND_WIDTH / 2, 26, 34);
+          canvas.text(String(item.value), x + LEGEND_WIDTH / 2, 58, { size: 18, bold: true, align: 'center' });
+        });
+        canvas.line({ x: 0, y: LEGEND_HEIGHT + 25 }, { x: SHEET_WIDTH, y: LEGEND_HEIGHT + 25 }, { stroke: '#eeeeee', lineWidth: 2 });
+
+        const boxStyle = { fill: '#f9f9f9', stroke: '#dddddd', lineWidth: 2 };
+        const problemsLeft = (SHEET_WIDTH - ROW_WIDTH * 2 - COLUMN_GAP) / 2;
+        problems.forEach((p, index) => {
+          const x = problemsLeft + (index % 2) * (ROW_WIDTH + COLUMN_GAP);
+          const y = PROBLEMS_TOP + Math.floor(index / 2) * (BOX_SIZE + ROW_GAP);
+          const middle = y + BOX_SIZE / 2;
+          const boxes = [0, 1, 2].map(i => x + i * (BOX_SIZE + SIGN_WIDTH));
+          boxes.forEach(left => canvas.rect(left, y, BOX_SIZE, BOX_SIZE, boxStyle, 8));
+          canvas.emoji(p.operand1, boxes[0] + BOX_SIZE / 2, middle, 38);
+          canvas.emoji(p.operand2, boxes[1] + BOX_SIZE / 2, middle, 38);
+          canvas.text(p.operator, boxes[1] - SIGN_WIDTH / 2, middle, { size: 24, bold: true, align: 'center' });
+          canvas.text('=', boxes[2] - SIGN_WIDTH / 2, middle, { size: 24, bold: true, align: 'center' });
+          if (answerKey) {
+            canvas.text(String(p.result), boxes[2] + BOX_SIZE / 2, middle, { size: 22, bold: true, color: '#ff7043', align: 'center' });
+          }
+        });
+      },
+    };
+  },
+};
@@ -0,0 +1,452 @@
+import { DEFAULT_PAGE_SETUP, DifficultyModel, PageSetup, PuzzleGenerator, Random, byAge, createRandom, getRandomInt, levelSettings, shuffleArray } from '../utils';
+import { ARITHMETIC_CHOICES, OptionsSchema, resolveOptions } from '../options';
+import { ANSWER_LINE_COLOR, worksheetArea } from '../pdf';
+import { CELL_HEIGHT, CELL_WIDTH, Cell, GRID_MARGIN, MazeGrid, PathStyle, alignToCorner, cellKey, cellPosition, fitGrid, isNeighbour, layoutPath, neighbours } from '../mazeLayout';
+import { MazeRules, applyStep, checkStep, operationsBetween, parseStep, randomStep, walkableValues } from '../mazeRules';
+import { isListOf, isRecord } from '../validation';
+
+export interface MazeNode {
+  id: number;
+  value: number;
+  isInput: boolean;
+  pos: { x: number; y: number };
+}
+
+export interface MazeConnection {
+  from: MazeNode;
+  to: MazeNode;
+  op: string; // e.g. "+3" or "÷2"
+  missing?: boolean; // The child fills in the operation
+}
+
+export interface MeCungToanHocPuzzle {
+  nodes: MazeNode[];
+  connections: MazeConnection[];
+  // Set for a branching maze: the one route that reaches "Kết thúc" with its value, by node id
+  route?: number[];
+}
+
+export const NODE_WIDTH = 60;
+export const NODE_HEIGHT = 60;
+const LABEL_SPACE = 24; // Room above the top row for the "Bắt đầu" label
+const GOAL_SPACE = 30; // Room for the goal of a branching maze
+
+// Arrow from one box towards the next: a line ending in an arrowhead that carries the operation.
+export const arrowGeometry = ({ from, to }: MazeConnection) => {
+  const fromCenter = { x: from.pos.x + NODE_WIDTH / 2, y: from.pos.y + NODE_HEIGHT / 2 };
+  const toCenter = { x: to.pos.x + NODE_WIDTH / 2, y: to.pos.y + NODE_HEIGHT / 2 };
+  const angle = Math.atan2(toCenter.y - fromCenter.y, toCenter.x - fromCenter.x);
+  const arrowLength = 30;
+  const arrowWidth = 30;
+  const arrowTipOffset = NODE_WIDTH / 2 + 3;
+  const p1 = {
+    x: toCenter.x - arrowTipOffset * Math.cos(angle),
+    y: toCenter.y - arrowTipOffset * Math.sin(angle)
+  };
+  const base = {
+    x: p1.x - arrowLength * Math.cos(angle),
+    y: p1.y - arrowLength * Math.sin(angle)
+  };
+  const p2 = {
+    x: base.x + arrowWidth / 2 * Math.sin(angle),
+    y: base.y - arrowWidth / 2 * Math.cos(angle)
+  };
+  const p3 = {
+    x: base.x - arrowWidth / 2 * Math.sin(angle),
+    y: base.y + arrowWidth / 2 * Math.cos(angle)
+  };
+  const label = { x: (p1.x + p2.x + p3.x) / 3, y: (p1.y + p2.y + p3.y) / 3 };
+  return { fromCenter, base, head: [p1, p2, p3], label };
+};
+
+export type MazeMode = 'path' | 'branching';
+
+export interface MeCungToanHocSettings extends MazeRules {
+  // Fill in every box of one path, or find the one route through a maze with dead ends
+  mode: MazeMode;
+  pathLength: number; // Boxes from "Bắt đầu" to "Kết thúc", both included
+  style: PathStyle;
+  turns: number; // How often the path turns, in percent
+  // Size of the grid the boxes sit on; 0 picks the size that prints largest on the paper
+  columns: number;
+  rows: number;
+  missingOperators: number; // Arrows of a path maze whose operation the child works out
+}
+
+const PATH_STYLE_CHOICES: { value: PathStyle; label: string }[] = [
+  { value: 'snake', label: 'Zích zắc' },
+  { value: 'spiral', label: 'Xoắn ốc' },
+  { value: 'random', label: 'Ngẫu nhiên' },
+];
+
+const AUTO_GRID = { columns: 0, rows: 0 };
+
+export const difficulty: DifficultyModel<MeCungToanHocSettings> = {
+  levels: [
+    { mode: 'path', pathLength: 8, style: 'snake', turns: 50, ...AUTO_GRID, operations: ['+'], minStep: 1, maxStep: 5, maxFactor: 2, maxValue: 50, missingOperators: 0 },
+    { mode: 'path', pathLength: 10, style: 'random', turns: 50, ...AUTO_GRID, operations: ['+', '-'], minStep: 1, maxStep: 9, maxFactor: 2, maxValue: 50, missingOperators: 0 },
+    { mode: 'path', pathLength: 16, style: 'random', turns: 40, ...AUTO_GRID, operations: ['+', '-'], minStep: 1, maxStep: 9, maxFactor: 2, maxValue: 50, missingOperators: 1 },
+    { mode: 'path', pathLength: 24, style: 'random', turns: 30, ...AUTO_GRID, operations: ['+', '-'], minStep: 2, maxStep: 15, maxFactor: 2, maxValue: 100, missingOperators: 3 },
+    { mode: 'branching', pathLength: 7, style: 'random', turns: 50, ...AUTO_GRID, operations: ['+', '-'], minStep: 1, maxStep: 9, maxFactor: 2, maxValue: 50, missingOperators: 0 },
+    { mode: 'branching', pathLength: 12, style: 'random', turns: 50, ...AUTO_GRID, operations: ['+', '-'], minStep: 1, maxStep: 15, maxFactor: 2, maxValue: 100, missingOperators: 0 },
+  ],
+  defaultLevel: 2,
+  describe: ({ mode, pathLength, operations, minStep, maxStep, maxFactor, maxValue, missingOperators }) => [
+    mode === 'branching' ? `Tìm đường qua ${pathLength} ô, có ngõ cụt và rẽ nhánh` : `${pathLength} ô trên đường đi`,
+    `Phép tính: ${operations.join(', ')}`,
+    ...(operations.some(op => op === '+' || op === '-') ? [`Cộng, trừ số từ ${minStep} đến ${maxStep}`] : []),
+    ...(operations.some(op => op === '×' || op === '÷') ? [`Nhân, chia với số từ 2 đến ${maxFactor}`] : []),
+    `Các số từ 0 đến ${maxValue}`,
+    ...(mode === 'path' && missingOperators > 0 ? [`${missingOperators} mũi tên thiếu phép tính`] : []),
+  ],
+  secondsPerAnswer: 12,
+};
+
+export interface MeCungToanHocOptions extends MeCungToanHocSettings {
+  // Marks the first mistake, offers hints and celebrates reaching "Kết thúc"; off for tests
+  liveCheck: boolean;
+}
+
+export const optionsSchema: OptionsSchema<MeCungToanHocOptions> = {
+  fields: [
+    {
+      type: 'choice',
+      key: 'mode',
+      label: 'Kiểu mê cung',
+      choices: [
+        { value: 'path', label: 'Điền số theo một đường' },
+        { value: 'branching', label: 'Tìm đường đúng (có ngõ cụt)' },
+      ],
+    },
+    { type: 'number', key: 'pathLength', label: 'Số ô trên đường đi', min: 4, max: 40 },
+    { type: 'choice', key: 'style', label: 'Dáng đường đi', choices: PATH_STYLE_CHOICES },
+    { type: 'number', key: 'turns', label: 'Mức rẽ ngoặt (%)', min: 0, max: 100 },
+    { type: 'number', key: 'columns', label: 'Số cột (0: vừa khổ giấy)', min: 0, max: 12 },
+    { type: 'number', key: 'rows', label: 'Số hàng (0: vừa khổ giấy)', min: 0, max: 12 },
+    { type: 'multi', key: 'operations', label: 'Phép tính', choices: ARITHMETIC_CHOICES },
+    { type: 'number', key: 'minStep', label: 'Số cộng, trừ nhỏ nhất', min: 1, max: 20 },
+    { type: 'number', key: 'maxStep', label: 'Số cộng, trừ lớn nhất', min: 1, max: 20 },
+    { type: 'number', key: 'maxFactor', label: 'Số nhân, chia lớn nhất', min: 2, max: 10 },
+    { type: 'number', key: 'maxValue', label: 'Số lớn nhất trong ô', min: 10, max: 1000 },
+    { type: 'number', key: 'missingOperators', label: 'Mũi tên thiếu phép tính (một đường)', min: 0, max: 10 },
+    { type: 'toggle', key: 'liveCheck', label: 'Báo lỗi và gợi ý ngay khi bé làm' },
+  ],
+  defaults: level => ({ ...levelSettings(difficulty, level), liveCheck: true }),
+  check: settings => {
+    const problem = mazeProblem(settings);
+    return problem ? { operations: problem } : {};
+  },
+};
+
+const MAX_BRANCH_LENGTH = 3;
+const MAX_DECOYS = 2; // Wrong-total arrows into "Kết thúc"
+const MAX_ATTEMPTS = 200;
+const MAX_START = 15;
+const BRANCHING_ROOM = 2; // A branching maze needs this many cells per box of its route
+
+// Routes from "Bắt đầu" that reach "Kết thúc" with the value written there, as node ids.
+export const findValidRoutes = ({ nodes, connections }: MeCungToanHocPuzzle): number[][] => {
+  const end = nodes[nodes.length - 1];
+  const routes: number[][] = [];
+  const walk = (id: number, value: number, route: number[]) => {
+    if (id === end.id) {
+      if (value === end.value) routes.push(route);
+      return;
+    }
+    connections
+      .filter(conn => conn.from.id === id && !route.includes(conn.to.id))
+      .forEach(conn => {
+        const next = applyStep(value, conn.op);
+        if (next !== null) walk(conn.to.id, next, [...route, conn.to.id]);
+      });
+  };
+  walk(nodes[0].id, nodes[0].value, [nodes[0].id]);
+  return routes;
+};
+
+// The grid for the settings, sized to print as large as it can on the paper unless the teacher set it.
+const mazeGrid = ({ mode, pathLength, columns, rows }: MeCungToanHocSettings, page: PageSetup): MazeGrid => {
+  const cells = mode === 'branching' ? pathLength * BRANCHING_ROOM : pathLength;
+  const sheetSize = (grid: MazeGrid) => ({
+    width: GRID_MARGIN + (grid.columns - 1) * CELL_WIDTH + NODE_WIDTH,
+    height: GRID_MARGIN + (grid.rows - 1) * CELL_HEIGHT + NODE_HEIGHT + LABEL_SPACE + (mode === 'branching' ? GOAL_SPACE : 0),
+  });
+  return fitGrid(cells, worksheetArea(page), sheetSize, { columns: columns || undefined, rows: rows || undefined });
+};
+
+// Cells of the path in the settings' style, or back and forth when a random walk finds no way.
+const pathCells = (grid: MazeGrid, { pathLength, style, turns }: MeCungToanHocSettings, random: Random): Cell[] =>
+  layoutPath(grid, pathLength, style, turns, random) ?? layoutPath(grid, pathLength, 'snake', turns, random)!;
+
+// Gives the boxes their place on the page, with the grid's unused edges trimmed off.
+const placeNodes = (nodes: MazeNode[], cells: Cell[]) => {
+  alignToCorner(cells).forEach((cell, i) => { nodes[i].pos = cellPosition(cell); });
+};
+
+// The number in "Bắt đầu", one the whole way can be walked from: a small one, or a large one when the
+// values can only go down, or any that works when none of those does.
+const startValue = ({ operations, maxValue }: MazeRules, walkable: Set<number>, random: Random) => {
+  const [min, max] = operations.some(op => op === '+' || op === '×')
+    ? [Math.min(5, maxValue), Math.min(MAX_START, maxValue)]
+    : [Math.ceil(maxValue / 2), maxValue];
+  const preferred = [...walkable].filter(value => value >= min && value <= max);
+  const choices = preferred.length > 0 ? preferred : [...walkable];
+  return choices[Math.floor(random() * choices.length)];
+};
+
+// What keeps the settings from ever making a maze, or null when they can: the operations must be able
+// to go from box to box for the whole way without leaving 0 to the largest number.
+const mazeProblem = (settings: MeCungToanHocSettings): string | null => {
+  const { pathLength, maxValue } = settings;
+  return walkableValues(settings, pathLength - 1)[pathLength - 1].size === 0
+    ? `Với các phép tính này, các số từ 0 đến ${maxValue} không đủ để đi hết ${pathLength} ô. Hãy thêm phép tính, tăng số lớn nhất trong ô hoặc bớt số ô.`
+    : null;
+};
+
+// What is wrong with a maze under the rules, or null when it can be shown: every arrow must keep the
+// rules and lead to the value in its box, and an arrow missing its operation must have only one.
+export const checkMaze = (maze: MeCungToanHocPuzzle, rules: MazeRules): string | null => {
+  const { nodes, connections, route } = maze;
+  const end = nodes[nodes.length - 1];
+  const badNode = nodes.find(node => !Number.isInteger(node.value) || node.value < 0 || node.value > rules.maxValue);
+  if (badNode) return `Box ${badNode.id} holds ${badNode.value}`;
+  for (const { from, to, op, missing } of connections) {
+    const problem = checkStep(from.value, op, rules);
+    if (problem) return problem;
+    // Side branches of a branching maze reach "Kết thúc" with other totals on purpose
+    if (!(route && to.id === end.id) && applyStep(from.value, op) !== to.value) return `${from.value} ${op} is not ${to.value}`;
+    if (missing && (from.isInput || to.isInput || operationsBetween(from.value, parseStep(op).operand, to.value).length !== 1)) {
+      return `The operation from ${from.value} to ${to.value} cannot be worked out`;
+    }
+  }
+  if (route && findValidRoutes(maze).length !== 1) return 'The maze does not have exactly one valid route';
+  return null;
+};
+
+// Hides the operation of some arrows whose boxes are shown and where only one operation fits; no
+// two of them touch the same box, so the child always has the numbers on both sides.
+const hideOperators = (connections: MazeConnection[], count: number, random: Random) => {
+  let hidden = 0;
+  shuffleArray(connections, random).forEach(conn => {
+    if (hidden >= count) return;
+    if (operationsBetween(conn.from.value, parseStep(conn.op).operand, conn.to.value).length !== 1) return;
+    if (connections.some(other => other.missing && [other.from.id, other.to.id].some(id => id === conn.from.id || id === conn.to.id))) return;
+    conn.missing = true;
+    conn.from.isInput = false;
+    conn.to.isInput = false;
+    hidden++;
+  });
+};
+
+// `walkable` comes from walkableValues, so every box keeps a way on to "Kết thúc".
+const tryPath = (random: Random, settings: MeCungToanHocSettings, grid: MazeGrid, walkable: Set<number>[]): MeCungToanHocPuzzle | null => {
+  const cells = pathCells(grid, settings, random);
+  const nodes: MazeNode[] = [{ id: 0, value: startValue(settings, walkable[cells.length - 1], random), isInput: false, pos: { x: 0, y: 0 } }];
+  const connections: MazeConnection[] = [];
+  for (let i = 1; i < cells.length; i++) {
+    const from = nodes[i - 1];
+    const op = randomStep(from.value, settings, random, value => walkable[cells.length - 1 - i].has(value));
+    if (op === null) return null; // The rules leave no way on from this value
+    const node: MazeNode = { id: i, value: applyStep(from.value, op)!, isInput: i < cells.length - 1, pos: { x: 0, y: 0 } };
+    nodes.push(node);
+    connections.push({ from, to: node, op });
+  }
+  hideOperators(connections, settings.missingOperators, random);
+  placeNodes(nodes, cells);
+  return { nodes, connections };
+};
+
+// --- Branching mazes ---
+// The route runs from "Bắt đầu" to "Kết thúc" like a path; side branches leave it and stop in dead
+// ends, or reach "Kết thúc" with a total other than the one written there.
+
+const tryBranchingMaze = (random: Random, settings: MeCungToanHocSettings, grid: MazeGrid, walkable: Set<number>[]): MeCungToanHocPuzzle | null => {
+  const routeCells = pathCells(grid, settings, random);
+  const used = new Set(routeCells.map(cellKey));
+  const freeNeighbours = (cell: Cell) => neighbours(cell, grid).filter(c => !used.has(cellKey(c)));
+  const step = (value: number) => randomStep(value, settings, random);
+
+  const start: MazeNode = { id: 0, value: startValue(settings, walkable[routeCells.length - 1], random), isInput: false, pos: { x: 0, y: 0 } };
+  const nodes: MazeNode[] = [start];
+  const cells: Cell[] = [routeCells[0]];
+  const connections: MazeConnection[] = [];
+  const addNode = (cell: Cell, from: MazeNode, op: string) => {
+    const node: MazeNode = { id: nodes.length, value: applyStep(from.value, op)!, isInput: false, pos: { x: 0, y: 0 } };
+    nodes.push(node);
+    cells.push(cell);
+    connections.push({ from, to: node, op });
+    return node;
+  };
+
+  let previous = start;
+  for (let i = 1; i < routeCells.length - 1; i++) {
+    const op = randomStep(previous.value, settings, random, value => walkable[routeCells.length - 1 - i].has(value));
+    if (op === null) return null;
+    previous = addNode(routeCells[i], previous, op);
+  }
+  const routeNodes = [...nodes];
+  const endCell = routeCells[routeCells.length - 1];
+  const lastStep = step(previous.value);
+  if (lastStep === null) return null;
+  const end: MazeNode = { id: -1, value: applyStep(previous.value, lastStep)!, isInput: false, pos: { x: 0, y: 0 } };
+  const endConnections: MazeConnection[] = [{ from: previous, to: end, op: lastStep }];
+
+  const branchCount = Math.ceil(routeCells.length / 2);
+  for (let branch = 0; branch < branchCount; branch++) {
+    let tip = routeNodes[Math.floor(random() * routeNodes.length)];
+    let cell = cells[tip.id];
+    const length = getRandomInt(1, MAX_BRANCH_LENGTH, random);
+    for (let i = 0; i < length; i++) {
+      const options = freeNeighbours(cell);
+      const op = step(tip.value);
+      if (options.length === 0 || op === null) break;
+      cell = options[Math.floor(random() * options.length)];
+      used.add(cellKey(cell));
+      tip = addNode(cell, tip, op);
+    }
+    // Some branches run into "Kết thúc" too, with the wrong total
+    if (isNeighbour(cell, endCell) && !endConnections.some(conn => conn.from === tip) && random() > 0.3) {
+      const op = step(tip.value);
+      if (op !== null && applyStep(tip.value, op) !== end.value) endConnections.push({ from: tip, to: end, op });
+    }
+  }
+  // Boxes next to "Kết thúc" that a branch can reach get an arrow into it with the wrong total
+  shuffleArray(freeNeighbours(endCell), random).slice(0, MAX_DECOYS).forEach(cell => {
+    const reachable = nodes.filter(node => isNeighbour(cells[node.id], cell));
+    if (reachable.length === 0) return;
+    const from = reachable[Math.floor(random() * reachable.length)];
+    const decoyStep = step(from.value);
+    if (decoyStep === null) return;
+    used.add(cellKey(cell));
+    const decoy = addNode(cell, from, decoyStep);
+    const op = step(decoy.value);
+    if (op !== null && applyStep(decoy.value, op) !== end.value) endConnections.push({ from: decoy, to: end, op });
+  });
+  if (nodes.length === routeNodes.length) return null; // No room for any branch
+
+  end.id = nodes.length;
+  nodes.push(end);
+  cells.push(endCell);
+  connections.push(...endConnections);
+  placeNodes(nodes, cells);
+  return { nodes, connections, route: [...routeNodes.map(node => node.id), end.id] };
+};
+
+// A maze for the settings, laid out to fit the paper it will be printed on. Mazes that break the
+// rules are thrown away and made again.
+export const generateMaze = (
+  seed: number,
+  settings: MeCungToanHocSettings = levelSettings(difficulty),
+  page: PageSetup = DEFAULT_PAGE_SETUP,
+): MeCungToanHocPuzzle => {
+  const problem = mazeProblem(settings);
+  if (problem) throw new Error(problem);
+  const random = createRandom(seed);
+  const grid = mazeGrid(settings, page);
+  const walkable = walkableValues(settings, settings.pathLength - 1);
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const maze = settings.mode === 'branching' ? tryBranchingMaze(random, settings, grid, walkable) : tryPath(random, settings, grid, walkable);
+    if (maze && checkMaze(maze, settings) === null) return maze;
+  }
+  throw new Error('Không tạo được mê cung giữ đúng luật với các tùy chọn này. Hãy đổi tùy chọn rồi thử lại.');
+};
+
+const STEP_PATTERN = /^[-+×÷]\d+$/;
+const isNode = (node: unknown): node is MazeNode =>
+  isRecord(node) && Number.isInteger(node.id) && Number.isInteger(node.value) && typeof node.isInput === 'boolean'
+  && isRecord(node.pos) && typeof node.pos.x === 'number' && typeof node.pos.y === 'number';
+const isConnection = (conn: unknown): conn is MazeConnection =>
+  isRecord(conn) && isNode(conn.from) && isNode(conn.to) && typeof conn.op === 'string' && STEP_PATTERN.test(conn.op);
+const isId = (id: unknown): id is number => Number.isInteger(id);
+
+// A maze from a library file or saved state, keeping only the fields the game uses. Boxes are
+// numbered in order from "Bắt đầu" (0) to "Kết thúc" (the last), as generateMaze makes them; arrows
+// must join listed boxes, and a route must start and end there and follow an arrow at every step.
+const parsePuzzle = (value: unknown): MeCungToanHocPuzzle | null => {
+  if (!isRecord(value) || !isListOf(value.nodes, isNode) || value.nodes.length < 2 || !isListOf(value.connections, isConnection)) return null;
+  if (value.nodes.some((node, i) => node.id !== i)) return null;
+  const nodes = value.nodes.map(({ id, value, isInput, pos }): MazeNode => ({ id, value, isInput, pos: { x: pos.x, y: pos.y } }));
+  const inMaze = (id: number) => id >= 0 && id < nodes.length;
+  if (value.connections.some(({ from, to }) => !inMaze(from.id) || !inMaze(to.id) || from.id === to.id)) return null;
+  const connections = value.connections.map(({ from, to, op, missing }): MazeConnection =>
+    ({ from: nodes[from.id], to: nodes[to.id], op, ...(missing === true && { missing }) }));
+
+  const route = isListOf(value.route, isId) ? [...value.route] : undefined;
+  if (value.route !== undefined && !route) return null;
+  if (route) {
+    const followsArrows = route.every((id, i) => i === 0 || connections.some(conn => conn.from.id === route[i - 1] && conn.to.id === id));
+    if (route[0] !== 0 || route[route.length - 1] !== nodes.length - 1 || !followsArrows) return null;
+  }
+  return { nodes, connections, ...(route && { route }) };
+};
+
+export const meCungToanHocGenerator: PuzzleGenerator<MeCungToanHocPuzzle, MeCungToanHocSettings, MeCungToanHocOptions> = {
+  info: {
+    id: 'calculation-path',
+    name: 'Mê cung toán học',
+    description: 'Bắt đầu từ ô "Bắt đầu", thực hiện các phép tính theo mũi tên để tìm đường đến ô "Kết thúc" và điền kết quả vào các ô trống. Ở mê cung có ngõ cụt, chỉ một đường đến được ô "Kết thúc" với đúng số ghi trong ô. Mũi tên có dấu "?" còn thiếu phép tính: hãy điền phép tính đúng.',
+    ageRange: { min: 6, max: 7 },
+    icon: '🧭',
+  },
+  difficulty,
+  optionsSchema,
+  agePreset: age => ({
+    level: byAge(age, [1, 1, 1, 1, 2, 3]),
+    pictureScale: 1,
+    reading: true,
+  }),
+  generate: async (seed, { level, options, page } = {}) => {
+    const { liveCheck, ...settings } = resolveOptions(optionsSchema, options, level);
+    return generateMaze(seed, settings, page);
+  },
+  validatePuzzle: parsePuzzle,
+  getWorksheet: ({ nodes, connections, route }, { answerKey = false } = {}) => {
+    const width = Math.max(...nodes.map(node => node.pos.x + NODE_WIDTH));
+    const height = Math.max(...nodes.map(node => node.pos.y + NODE_HEIGHT));
+    const goalSpace = route ? GOAL_SPACE : 0;
+    const end = nodes[nodes.length - 1];
+    const onRoute = (conn: MazeConnection) => !!route && route.some((id, i) => id === conn.from.id && route[i + 1] === conn.to.id);
+    return {
+      width,
+      height: height + LABEL_SPACE + goalSpace,
+      draw: canvas => {
+        const top = goalSpace + LABEL_SPACE - Math.min(...nodes.map(node => node.pos.y));
+        const shift = (p: { x: number; y: number }) => ({ x: p.x, y: p.y + top });
+
+        if (route) {
+          canvas.text(`Tô màu đường đi duy nhất đến ô "Kết thúc" được đúng ${end.value}.`, width / 2, 10, { size: 14, bold: true, color: '#555555', align: 'center' });
+        }
+
+        connections.forEach(conn => {
+          const { fromCenter, base, head, label } = arrowGeometry(conn);
+          const color = answerKey && (onRoute(conn) || conn.missing) ? ANSWER_LINE_COLOR : '#29b6f6';
+          canvas.line(shift(fromCenter), shift(base), { stroke: color, lineWidth: 3 });
+          canvas.polygon(head.map(shift), { fill: color });
+          // The child writes a missing operation over the "?"
+          const text = conn.missing && !answerKey ? `?${parseStep(conn.op).operand}` : conn.op;
+          canvas.text(text, label.x, label.y + top, { size: 14, bold: true, color: '#ffffff', align: 'center' });
+        });
+
+        nodes.forEach(node => {
+          const isStart = node.id === 0;
+          const isEnd = node.id === end.id;
+          // The boxes of a branching maze stay empty; its answer key fills in the route
+          const isBlank = node.isInput || (!!route && !isStart && !isEnd);
+          const { x, y } = shift(node.pos);
+          const colors = isStart ? { fill: '#2ecc71', stroke: '#27ae60', text: '#ffffff' }
+            : isEnd ? { fill: '#f39c12', stroke: '#e67e22', text: '#ffffff' }
+            : { fill: '#ffffff', stroke: '#bdc3c7', text: '#333333' };
+          canvas.rect(x, y, NODE_WIDTH, NODE_HEIGHT, { fill: colors.fill, stroke: colors.stroke, lineWidth: 3 }, 12);
+          if (!isBlank || (answerKey && (!route || route.includes(node.id)))) {
+            canvas.text(String(node.value), x + NODE_WIDTH / 2, y + NODE_HEIGHT / 2, {
+              size: 22, bold: true, color: isBlank ? '#ff7043' : colors.text, align: 'center',
+            });
+          }
+          if (isStart || isEnd) {
+            canvas.text(isStart ? 'Bắt đầu' : 'Kết thúc', x + NODE_WIDTH / 2, y - 12, { size: 14, bold: true, color: '#555555', align: 'center' });
+          }
+        });
+      },
+    };
+  },
+};
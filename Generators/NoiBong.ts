@@ -0,0 +1,124 @@
+import { DifficultyModel, PuzzleGenerator, byAge, createRandom, levelSettings, pairMatches, shuffleArray } from '../utils';
+import { OptionsSchema, resolveOptions } from '../options';
+import { Point, drawAnswerLines } from '../pdf';
+import { isListOf, isRecord } from '../validation';
+
+// --- SVG Icons ---
+// Markup rather than components, so the page and the PDF draw the same shapes.
+export type IconMode = 'outline' | 'filled';
+
+const iconPath = (d: string, color: string, mode: IconMode, lineCap = '') =>
+  `<path d="${d}" fill="${mode === 'filled' ? color : 'none'}" stroke="${mode === 'outline' ? '#000' : 'none'}" stroke-width="4" stroke-linejoin="round"${lineCap && ` stroke-linecap="${lineCap}"`} />`;
+
+const ICONS: Record<string, (mode: IconMode) => string> = {
+  leaf: mode => iconPath('M50 95 L50 70 M50 70 C 20 70, 20 30, 50 5 C 80 30, 80 70, 50 70', '#D32F2F', mode, 'round'),
+  acorn: mode => iconPath('M30 45 L70 45 L70 55 Q 50 65, 30 55 L30 45 M30 55 C 30 85, 70 85, 70 55', '#795548', mode, 'round') +
+    `<line x1="50" y1="45" x2="50" y2="25" stroke="${mode === 'outline' ? '#000' : '#795548'}" stroke-width="4" stroke-linecap="round" />`,
+  pumpkin: mode => iconPath('M20 60 C 20 90, 80 90, 80 60 C 80 30, 20 30, 20 60 M50 30 C 40 50, 40 70, 50 90 M50 30 C 60 50, 60 70, 50 90', '#F57C00', mode),
+  mushroom: mode => iconPath('M25 50 C 25 30, 75 30, 75 50 L 65 50 L 65 80 L 35 80 L 35 50 Z', '#E57373', mode),
+  house: mode => iconPath('M20 80 L 80 80 L 80 50 L 50 20 L 20 50 Z M40 80 L 40 60 L 60 60 L 60 80', '#8D6E63', mode),
+};
+export const iconMarkup = (iconId: string, mode: IconMode) =>
+  `<svg viewBox="0 0 100 100">${ICONS[iconId]?.(mode) ?? ''}</svg>`;
+
+// Printed layout, matching the desktop styles: 80px cards with their dots either side of a divider.
+const SHEET_WIDTH = 400;
+const CARD_SIZE = 80;
+const ICON_SIZE = 50;
+const ROW_GAP = 20;
+const SHEET_CENTER = SHEET_WIDTH / 2;
+const DOT_OFFSET = 27; // From the divider to a dot's centre
+const CARD_OFFSET = 48; // From the divider to the near edge of a card
+
+const iconKeys = Object.keys(ICONS);
+
+export interface MatchItem {
+  id: string;
+  iconId: string;
+}
+
+export interface NoiBongPuzzle {
+  leftItems: MatchItem[];
+  rightItems: MatchItem[];
+}
+
+export interface NoiBongSettings {
+  pairs: number;
+}
+
+export const difficulty: DifficultyModel<NoiBongSettings> = {
+  levels: [{ pairs: 3 }, { pairs: 4 }, { pairs: 5 }],
+  defaultLevel: 3,
+  describe: ({ pairs }) => [`${pairs} hình cần nối`],
+  secondsPerAnswer: 6,
+};
+
+export const optionsSchema: OptionsSchema<NoiBongSettings> = {
+  fields: [
+    { type: 'number', key: 'pairs', label: 'Số hình cần nối', min: 2, max: iconKeys.length },
+  ],
+  defaults: level => ({ ...levelSettings(difficulty, level) }),
+};
+
+export const generateItems = (seed: number, { pairs }: NoiBongSettings = levelSettings(difficulty)): NoiBongPuzzle => {
+  const random = createRandom(seed);
+  const chosenIcons = shuffleArray(iconKeys, random).slice(0, pairs);
+  return {
+    leftItems: chosenIcons.map((iconId, i) => ({ id: `l-${i}`, iconId })),
+    rightItems: shuffleArray(chosenIcons, random).map((iconId, i) => ({ id: `r-${i}`, iconId })),
+  };
+};
+
+const isItem = (item: unknown): item is MatchItem => isRecord(item) && typeof item.id === 'string' && typeof item.iconId === 'string';
+
+// A puzzle from a library file or saved state, keeping only the fields the game uses.
+const parsePuzzle = (value: unknown): NoiBongPuzzle | null =>
+  isRecord(value) && isListOf(value.leftItems, isItem) && isListOf(value.rightItems, isItem)
+    ? {
+      leftItems: value.leftItems.map(({ id, iconId }) => ({ id, iconId })),
+      rightItems: value.rightItems.map(({ id, iconId }) => ({ id, iconId })),
+    }
+    : null;
+
+export const noiBongGenerator: PuzzleGenerator<NoiBongPuzzle, NoiBongSettings> = {
+  info: {
+    id: 'shadow-match',
+    name: 'Nối bóng',
+    description: 'Nối mỗi hình ở cột bên trái với cái bóng giống hệt nó ở cột bên phải.',
+    ageRange: { min: 2, max: 4 },
+    icon: '🍂',
+  },
+  difficulty,
+  optionsSchema,
+  agePreset: age => ({
+    level: byAge(age, [1, 2, 3]),
+    pictureScale: byAge(age, [1.5, 1.5, 1.25, 1]),
+    reading: true,
+  }),
+  generate: async (seed, { level, options } = {}) => generateItems(seed, resolveOptions(optionsSchema, options, level)),
+  validatePuzzle: parsePuzzle,
+  getWorksheet: ({ leftItems, rightItems }, { answerKey = false } = {}) => {
+    const rowMiddle = (index: number) => index * (CARD_SIZE + ROW_GAP) + CARD_SIZE / 2;
+    return {
+      width: SHEET_WIDTH,
+      height: leftItems.length * (CARD_SIZE + ROW_GAP) - ROW_GAP,
+      draw: canvas => {
+        canvas.line({ x: SHEET_CENTER, y: 0 }, { x: SHEET_CENTER, y: rowMiddle(leftItems.length - 1) + CARD_SIZE / 2 }, { stroke: '#e0e0e0', lineWidth: 2 });
+        ([[leftItems, -1, 'outline'], [rightItems, 1, 'filled']] as const).forEach(([items, side, mode]) => items.forEach((item, index) => {
+          const y = rowMiddle(index);
+          const cardX = side < 0 ? SHEET_CENTER - CARD_OFFSET - CARD_SIZE : SHEET_CENTER + CARD_OFFSET;
+          canvas.rect(cardX, y - CARD_SIZE / 2, CARD_SIZE, CARD_SIZE, { fill: '#fdfdfd', stroke: '#dddddd', lineWidth: 2 }, 12);
+          canvas.svg(iconMarkup(item.iconId, mode), cardX + (CARD_SIZE - ICON_SIZE) / 2, y - ICON_SIZE / 2, ICON_SIZE);
+          canvas.circle(SHEET_CENTER + side * DOT_OFFSET, y, 6, { fill: '#bdc3c7' });
+        }));
+        if (answerKey) {
+          drawAnswerLines(canvas, pairMatches(leftItems, rightItems, (l: MatchItem, r: MatchItem) => l.iconId === r.iconId)
+            .map(([l, r]): [Point, Point] => [
+              { x: SHEET_CENTER - DOT_OFFSET, y: rowMiddle(leftItems.indexOf(l)) },
+              { x: SHEET_CENTER + DOT_OFFSET, y: rowMiddle(rightItems.indexOf(r)) },
+            ]));
+        }
+      },
+    };
+  },
+};
@@ -0,0 +1,204 @@
+import { DifficultyModel, PuzzleGenerator, Random, Skill, byAge, createRandom, levelSettings, pairMatches, shuffleArray } from '../utils';
+import { ARITHMETIC_CHOICES, OptionsSchema, resolveOptions } from '../options';
+import { Point, drawAnswerLines } from '../pdf';
+import { isListOf, isRecord } from '../validation';
+
+export interface MatchItem {
+  id: string;
+  content: string;
+  // On an equation, its result; on a result, its equation. Empty on a result that matches none.
+  matchId: string;
+}
+
+export interface NoiPhepTinhPuzzle {
+  leftItems: MatchItem[];
+  rightItems: MatchItem[];
+}
+
+// Printed layout, matching the desktop styles: two 200px columns of 120x60 cards.
+const SHEET_WIDTH = 500;
+const COLUMN_CENTERS = [100, 400];
+const CARD_WIDTH = 120;
+const CARD_HEIGHT = 60;
+const CARD_GAP = 15;
+
+export type EquationOperation = '+' | '-' | '×' | '÷';
+
+export interface NoiPhepTinhSettings {
+  pairs: number;
+  maxNumber: number; // Largest number on any card, results included
+  operations: EquationOperation[];
+  distractors: number; // Results in the right column that match no equation
+}
+
+export const difficulty: DifficultyModel<NoiPhepTinhSettings> = {
+  levels: [
+    { pairs: 3, maxNumber: 5, operations: ['+'], distractors: 0 },
+    { pairs: 4, maxNumber: 10, operations: ['+'], distractors: 0 },
+    { pairs: 5, maxNumber: 10, operations: ['+'], distractors: 1 },
+    { pairs: 5, maxNumber: 10, operations: ['+', '-'], distractors: 1 },
+    { pairs: 6, maxNumber: 20, operations: ['+', '-'], distractors: 2 },
+    { pairs: 8, maxNumber: 100, operations: ['+', '-'], distractors: 2 },
+  ],
+  defaultLevel: 3,
+  describe: ({ pairs, maxNumber, operations, distractors }) => [
+    `${pairs} phép tính`,
+    `Các số từ 0 đến ${maxNumber}`,
+    `Phép tính: ${operations.join(', ')}`,
+    ...(distractors > 0 ? [`${distractors} kết quả thừa để đánh lừa`] : []),
+  ],
+  secondsPerAnswer: 10,
+};
+
+export const optionsSchema: OptionsSchema<NoiPhepTinhSettings> = {
+  fields: [
+    { type: 'number', key: 'pairs', label: 'Số phép tính', min: 3, max: 10 },
+    { type: 'number', key: 'maxNumber', label: 'Số lớn nhất', min: 5, max: 100 },
+    { type: 'multi', key: 'operations', label: 'Phép tính', choices: ARITHMETIC_CHOICES },
+    { type: 'number', key: 'distractors', label: 'Kết quả thừa', min: 0, max: 5 },
+  ],
+  defaults: level => ({ ...levelSettings(difficulty, level) }),
+  check: ({ pairs, maxNumber, operations, distractors }) => {
+    const results = resultCount(maxNumber, operations);
+    if (results < pairs) {
+      return { pairs: `Với các phép tính và số lớn nhất này chỉ có ${results} kết quả khác nhau. Hãy chọn tối đa ${results} phép tính, tăng số lớn nhất hoặc thêm phép tính.` };
+    }
+    const unused = maxNumber + 1 - pairs;
+    return unused < distractors ? { distractors: `Chỉ còn ${unused} số từ 0 đến ${maxNumber} làm kết quả thừa.` } : {};
+  },
+};
+
+const MAX_FACTOR = 10; // Multiplying and dividing stay within the times tables
+const DISTRACTOR_DISTANCE = 3; // Wrong results are picked close to the right ones, so they look plausible
+
+interface Equation {
+  content: string;
+  result: number;
+}
+
+// Every equation of the operation whose numbers all stay within 0 to the largest number.
+const equationsOf = (operation: EquationOperation, maxNumber: number): Equation[] => {
+  const equations: Equation[] = [];
+  if (operation === '+' || operation === '-') {
+    for (let a = 0; a <= maxNumber; a++) {
+      for (let b = 1; b <= maxNumber; b++) {
+        if (operation === '+' && a + b <= maxNumber) equations.push({ content: `${a} + ${b}`, result: a + b });
+        if (operation === '-' && b <= a) equations.push({ content: `${a} - ${b}`, result: a - b });
+      }
+    }
+    return equations;
+  }
+  for (let a = 2; a <= MAX_FACTOR; a++) {
+    for (let b = 1; b <= MAX_FACTOR && a * b <= maxNumber; b++) {
+      equations.push(operation === '×' ? { content: `${a} × ${b}`, result: a * b } : { content: `${a * b} ÷ ${a}`, result: b });
+    }
+  }
+  return equations;
+};
+
+// The skill an equation practises, from the operation in its content.
+export const equationSkill = (content: string): Skill => {
+  if (content.includes('-')) return 'subtraction';
+  if (content.includes('×')) return 'multiplication';
+  if (content.includes('÷')) return 'division';
+  return 'addition';
+};
+
+// How many different results the operations can give, which is the most equations a puzzle can have.
+const resultCount = (maxNumber: number, operations: EquationOperation[]) =>
+  new Set(operations.flatMap(operation => equationsOf(operation, maxNumber).map(equation => equation.result))).size;
+
+// An equation and a result go together when each names the other.
+export const isMatch = (left: MatchItem, right: MatchItem) => left.matchId === right.content && right.matchId === left.content;
+
+// Equations with different results, spread over the operations; fewer than asked when the numbers
+// allow fewer different results, which the options check reports.
+const pickEquations = (pairs: number, maxNumber: number, operations: EquationOperation[], random: Random): Equation[] => {
+  const byOperation = operations.map(operation => equationsOf(operation, maxNumber));
+  const picked: Equation[] = [];
+  const results = new Set<number>();
+  while (picked.length < pairs) {
+    const open = byOperation.map(equations => equations.filter(equation => !results.has(equation.result))).filter(equations => equations.length > 0);
+    if (open.length === 0) break;
+    const equations = open[Math.floor(random() * open.length)];
+    const equation = equations[Math.floor(random() * equations.length)];
+    picked.push(equation);
+    results.add(equation.result);
+  }
+  return picked;
+};
+
+// Results that match none of the equations, near the ones that do.
+const pickDistractors = (count: number, maxNumber: number, results: number[], random: Random): number[] => {
+  const unused = Array.from({ length: maxNumber + 1 }, (_, n) => n).filter(n => !results.includes(n));
+  const near = unused.filter(n => results.some(result => Math.abs(result - n) <= DISTRACTOR_DISTANCE));
+  const far = unused.filter(n => !near.includes(n));
+  return [...shuffleArray(near, random), ...shuffleArray(far, random)].slice(0, count);
+};
+
+export const generateItems = (seed: number, { pairs, maxNumber, operations, distractors }: NoiPhepTinhSettings = levelSettings(difficulty)): NoiPhepTinhPuzzle => {
+  const random = createRandom(seed);
+  const equations = pickEquations(pairs, maxNumber, operations, random);
+  const extras = pickDistractors(distractors, maxNumber, equations.map(equation => equation.result), random);
+  const results = [
+    ...equations.map(({ content, result }) => ({ content: String(result), matchId: content })),
+    ...extras.map(result => ({ content: String(result), matchId: '' })),
+  ];
+  return {
+    leftItems: equations.map(({ content, result }, i) => ({ id: `l-${i}`, content, matchId: String(result) })),
+    rightItems: shuffleArray(results.map((item, i) => ({ ...item, id: `r-${i}` })), random),
+  };
+};
+
+const isItem = (item: unknown): item is MatchItem =>
+  isRecord(item) && typeof item.id === 'string' && typeof item.content === 'string' && typeof item.matchId === 'string';
+
+// A puzzle from a library file or saved state, keeping only the fields the game uses.
+const parsePuzzle = (value: unknown): NoiPhepTinhPuzzle | null =>
+  isRecord(value) && isListOf(value.leftItems, isItem) && isListOf(value.rightItems, isItem)
+    ? {
+      leftItems: value.leftItems.map(({ id, content, matchId }) => ({ id, content, matchId })),
+      rightItems: value.rightItems.map(({ id, content, matchId }) => ({ id, content, matchId })),
+    }
+    : null;
+
+export const noiPhepTinhGenerator: PuzzleGenerator<NoiPhepTinhPuzzle, NoiPhepTinhSettings> = {
+  info: {
+    id: 'equation-match',
+    name: 'Nối phép tính',
+    description: 'Nối phép tính ở cột bên trái với kết quả đúng ở cột bên phải. Có thể có kết quả thừa không nối với phép tính nào.',
+    ageRange: { min: 5, max: 7 },
+    icon: '➕',
+  },
+  difficulty,
+  optionsSchema,
+  agePreset: age => ({
+    level: byAge(age, [1, 1, 1, 2, 3, 4]),
+    pictureScale: byAge(age, [1.25, 1.25, 1.25, 1]),
+    reading: true,
+  }),
+  generate: async (seed, { level, options } = {}) => generateItems(seed, resolveOptions(optionsSchema, options, level)),
+  validatePuzzle: parsePuzzle,
+  getWorksheet: ({ leftItems, rightItems }, { answerKey = false } = {}) => {
+    const cardTop = (index: number) => index * (CARD_HEIGHT + CARD_GAP);
+    return {
+      width: SHEET_WIDTH,
+      height: cardTop(Math.max(leftItems.length, rightItems.length)) - CARD_GAP,
+      draw: canvas => {
+        [leftItems, rightItems].forEach((items, column) => items.forEach((item, index) => {
+          const x = COLUMN_CENTERS[column] - CARD_WIDTH / 2;
+          canvas.rect(x, cardTop(index), CARD_WIDTH, CARD_HEIGHT, { fill: '#ffffff', stroke: '#ff7043', lineWidth: 2 }, 12);
+          canvas.text(item.content, COLUMN_CENTERS[column], cardTop(index) + CARD_HEIGHT / 2, { size: 18, bold: true, align: 'center' });
+        }));
+        if (answerKey) {
+          const middle = (index: number) => cardTop(index) + CARD_HEIGHT / 2;
+          drawAnswerLines(canvas, pairMatches(leftItems, rightItems, isMatch)
+            .map(([l, r]): [Point, Point] => [
+              { x: COLUMN_CENTERS[0] + CARD_WIDTH / 2, y: middle(leftItems.indexOf(l)) },
+              { x: COLUMN_CENTERS[1] - CARD_WIDTH / 2, y: middle(rightItems.indexOf(r)) },
+            ]));
+        }
+      },
+    };
+  },
+};
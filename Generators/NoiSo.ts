@@ -0,0 +1,247 @@
+import { DifficultyModel, PuzzleGenerator, Random, byAge, createRandom, describeAge, levelSettings, pairMatches, shuffleArray } from '../utils';
+import { OptionsSchema, resolveOptions } from '../options';
+import { Point, drawAnswerLines } from '../pdf';
+import { Type } from "@google/genai";
+import { sanitizeTheme, themeField } from '../ai';
+import { Validated, isIntegerInRange, isListOf, isNonEmptyString, isRecord, keepUnique, keepValid, requireArray, takeExactly } from '../validation';
+import { sanitizeSvg } from '../svg';
+import { generateContent, getContentPacks } from '../content';
+
+export interface LeftItem {
+  id: string;
+  svg: string;
+  count: number;
+}
+export interface RightItem {
+  id: string;
+  count: number;
+}
+
+export interface NoiSoPuzzle {
+  theme: string;
+  leftItems: LeftItem[];
+  rightItems: RightItem[];
+  dots?: boolean; // Counts drawn as dots instead of numerals, for children who cannot read them yet
+}
+
+export const DEFAULT_THEME = 'đơn giản';
+
+const GAME_ID = 'number-match';
+
+// Printed layout, matching the desktop styles: 80px cards with their dots either side of a divider.
+const SHEET_WIDTH = 400;
+const CARD_SIZE = 80;
+const DRAWING_SIZE = 64;
+const ROW_GAP = 20;
+const SHEET_CENTER = SHEET_WIDTH / 2;
+const DOT_OFFSET = 63; // From the divider to a dot's centre
+const CARD_OFFSET = 84; // From the divider to the near edge of a card
+const COUNT_DOT_GAP = 20; // Between the centres of the dots drawn for a count, three to a row
+
+// Gemini response schema
+const responseSchema = {
+    type: Type.ARRAY,
+    description: "A list of 5 pairs for the matching game.",
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            svg: {
+                type: Type.STRING,
+                description: "An inline SVG string (viewBox='0 0 100 100') showing 1 to 9 objects based on the theme. The objects should be simple, clear, and easy for a child to count."
+            },
+            count: {
+                type: Type.INTEGER,
+                description: "The number of objects (1-9) depicted in the SVG."
+            }
+        },
+        required: ["svg", "count"]
+    }
+};
+
+const PAIR_COUNT = 5;
+
+export interface NoiSoSettings {
+  pairs: number; // Out of the PAIR_COUNT drawings generated
+  maxCount: number; // Most objects in a drawing
+}
+
+export const difficulty: DifficultyModel<NoiSoSettings> = {
+  levels: [
+    { pairs: 3, maxCount: 5 },
+    { pairs: 4, maxCount: 7 },
+    { pairs: 5, maxCount: 9 },
+  ],
+  defaultLevel: 3,
+  describe: ({ pairs, maxCount }) => [`${pairs} hình cần nối`, `Đếm đến ${maxCount}`],
+  secondsPerAnswer: 8,
+};
+
+export interface NoiSoOptions extends NoiSoSettings {
+  theme: string;
+  dots: boolean; // Counts drawn as dots; by default for children who cannot read numerals yet
+}
+
+export const optionsSchema: OptionsSchema<NoiSoOptions> = {
+  fields: [
+    themeField('ví dụ: trái cây, động vật'),
+    { type: 'number', key: 'pairs', label: 'Số hình cần nối', min: 2, max: PAIR_COUNT },
+    { type: 'number', key: 'maxCount', label: 'Đếm đến', min: PAIR_COUNT, max: 9 },
+    { type: 'toggle', key: 'dots', label: 'Vẽ số lượng bằng chấm tròn' },
+  ],
+  defaults: (level, age) => ({
+    theme: DEFAULT_THEME,
+    ...levelSettings(difficulty, level),
+    dots: age !== undefined && !noiSoGenerator.agePreset(age).reading,
+  }),
+};
+
+const findPackDrawing = (count: number): Omit<LeftItem, 'id'> | null => {
+  for (const pack of getContentPacks(GAME_ID)) {
+    for (const entry of pack.entries) {
+      const pairs = Array.isArray(entry.data) ? entry.data : [];
+      const match = pairs.find(pair => isRecord(pair) && pair.count === count && isNonEmptyString(pair.svg));
+      const svg = match && sanitizeSvg(match.svg);
+      if (svg) return { svg, count };
+    }
+  }
+  return null;
+};
+
+// Counts cannot be recovered from the drawing, so bad or repeated ones are dropped instead.
+// Drawings that fail sanitizing are swapped for a content pack drawing with the same count, if any.
+const validatePairs = (data: unknown): Validated<Omit<LeftItem, 'id'>[]> => {
+  const repairs: string[] = [];
+  const isPair = (item: unknown): item is Omit<LeftItem, 'id'> =>
+    isRecord(item) && isNonEmptyString(item.svg) && isIntegerInRange(item.count, 1, 9);
+  const pairs = keepUnique(keepValid(requireArray(data, 'the pairs'), isPair, 'pairs', repairs), item => item.count, 'counts', repairs);
+
+  let replaced = 0;
+  const safePairs = pairs.flatMap(item => {
+    const svg = sanitizeSvg(item.svg);
+    if (svg) return [{ svg, count: item.count }];
+    const fallback = findPackDrawing(item.count);
+    if (!fallback) return [];
+    replaced++;
+    return [fallback];
+  });
+  if (replaced > 0) repairs.push(`Replaced ${replaced} unsafe drawings with content pack ones.`);
+  if (safePairs.length < pairs.length) repairs.push(`Dropped ${pairs.length - safePairs.length} unsafe drawings.`);
+
+  return { value: takeExactly(safePairs, PAIR_COUNT, 'pairs', repairs), repairs };
+};
+
+const buildPrompt = (topic: string, maxCount: number, childAge: string) => `
+        Create data for a number matching game for a child ${childAge}. The theme is "${topic}".
+        - Generate a list of 5 pairs.
+        - Each pair must contain:
+          1. An 'svg': An inline SVG string (viewBox='0 0 100 100') showing a number of objects (from 1 to ${maxCount}). The number of objects for each of the 5 pairs must be unique. The SVG should be simple, colorful, and the objects easy to count.
+          2. A 'count': The integer number of objects shown in the SVG.
+        - Return the output as a single JSON array that strictly follows the provided schema. Do not include any text or markdown formatting.
+      `;
+
+// Drawings within the level's count come first, then the smallest others.
+const pickPairs = (pairs: Omit<LeftItem, 'id'>[], { pairs: count, maxCount }: NoiSoSettings) => [
+  ...pairs.filter(pair => pair.count <= maxCount),
+  ...pairs.filter(pair => pair.count > maxCount).sort((a, b) => a.count - b.count),
+].slice(0, count);
+
+// Both columns are shuffled, so AI answers listed in counting order do not give the matches away.
+const toPuzzle = (theme: string, pairs: Omit<LeftItem, 'id'>[], dots: boolean, random: Random): NoiSoPuzzle => {
+  const baseItems = shuffleArray(pairs, random);
+  return {
+    theme,
+    dots,
+    leftItems: baseItems.map((item, i) => ({ id: `l-${i}`, svg: item.svg, count: item.count })),
+    rightItems: shuffleArray(baseItems.map((item, i) => ({ id: `r-${i}`, count: item.count })), random),
+  };
+};
+
+const isLeftItem = (item: unknown): item is LeftItem =>
+  isRecord(item) && typeof item.id === 'string' && typeof item.svg === 'string' && Number.isInteger(item.count);
+const isRightItem = (item: unknown): item is RightItem => isRecord(item) && typeof item.id === 'string' && Number.isInteger(item.count);
+
+// A puzzle from a library file or saved state, with its drawings sanitized; one that fails is refused.
+const parsePuzzle = (value: unknown): NoiSoPuzzle | null => {
+  if (!isRecord(value) || typeof value.theme !== 'string' || !isListOf(value.leftItems, isLeftItem) || !isListOf(value.rightItems, isRightItem)) return null;
+  const leftItems = value.leftItems.map(({ id, svg, count }) => ({ id, svg: sanitizeSvg(svg), count }));
+  if (leftItems.some(item => item.svg === null)) return null;
+  return {
+    theme: value.theme,
+    leftItems: leftItems as LeftItem[],
+    rightItems: value.rightItems.map(({ id, count }) => ({ id, count })),
+    dots: value.dots === true,
+  };
+};
+
+export const noiSoGenerator: PuzzleGenerator<NoiSoPuzzle, NoiSoSettings, NoiSoOptions> = {
+  info: {
+    id: GAME_ID,
+    name: 'Nối Số',
+    description: 'Nối các ô chứa hình ảnh ở cột trái với ô chứa số lượng tương ứng ở cột phải.',
+    ageRange: { min: 3, max: 5 },
+    icon: '🔢',
+  },
+  difficulty,
+  optionsSchema,
+  agePreset: age => ({
+    level: byAge(age, [1, 1, 2, 3]),
+    pictureScale: byAge(age, [1.5, 1.5, 1.25, 1]),
+    reading: age >= 4,
+  }),
+  generate: async (seed, { level, age, options, signal } = {}) => {
+    const random = createRandom(seed);
+    const { theme, dots, ...settings } = resolveOptions(optionsSchema, options, level, age);
+    const topic = sanitizeTheme(theme) || DEFAULT_THEME;
+    const item = await generateContent({
+      key: GAME_ID,
+      prompt: buildPrompt(topic, settings.maxCount, describeAge(noiSoGenerator.info.ageRange, age)),
+      schema: responseSchema,
+      signal,
+      validate: validatePairs,
+    }, random, topic);
+    return toPuzzle(item.theme ?? topic, pickPairs(item.value, settings), dots, random);
+  },
+  validatePuzzle: parsePuzzle,
+  getWorksheet: ({ leftItems, rightItems, dots = false }, { answerKey = false } = {}) => {
+    const rowMiddle = (index: number) => index * (CARD_SIZE + ROW_GAP) + CARD_SIZE / 2;
+    const cardStyle = { fill: '#fdfdfd', stroke: '#dddddd', lineWidth: 2 };
+    return {
+      width: SHEET_WIDTH,
+      height: leftItems.length * (CARD_SIZE + ROW_GAP) - ROW_GAP,
+      draw: canvas => {
+        canvas.line({ x: SHEET_CENTER, y: 0 }, { x: SHEET_CENTER, y: rowMiddle(leftItems.length - 1) + CARD_SIZE / 2 }, { stroke: '#e0e0e0', lineWidth: 2 });
+        leftItems.forEach((item, index) => {
+          const x = SHEET_CENTER - CARD_OFFSET - CARD_SIZE;
+          const y = rowMiddle(index);
+          canvas.rect(x, y - CARD_SIZE / 2, CARD_SIZE, CARD_SIZE, cardStyle, 12);
+          canvas.svg(item.svg, x + (CARD_SIZE - DRAWING_SIZE) / 2, y - DRAWING_SIZE / 2, DRAWING_SIZE);
+          canvas.circle(SHEET_CENTER - DOT_OFFSET, y, 6, { fill: '#bdc3c7' });
+        });
+        rightItems.forEach((item, index) => {
+          const x = SHEET_CENTER + CARD_OFFSET;
+          const y = rowMiddle(index);
+          canvas.rect(x, y - CARD_SIZE / 2, CARD_SIZE, CARD_SIZE, cardStyle, 12);
+          if (dots) {
+            const rows = Math.ceil(item.count / 3);
+            for (let i = 0; i < item.count; i++) {
+              const inRow = Math.min(item.count - Math.floor(i / 3) * 3, 3);
+              const dx = ((i % 3) - (inRow - 1) / 2) * COUNT_DOT_GAP;
+              const dy = (Math.floor(i / 3) - (rows - 1) / 2) * COUNT_DOT_GAP;
+              canvas.circle(x + CARD_SIZE / 2 + dx, y + dy, 7, { fill: '#ff7043' });
+            }
+          } else {
+            canvas.text(String(item.count), x + CARD_SIZE / 2, y, { size: 40, bold: true, color: '#ff7043', align: 'center' });
+          }
+          canvas.circle(SHEET_CENTER + DOT_OFFSET, y, 6, { fill: '#bdc3c7' });
+        });
+        if (answerKey) {
+          drawAnswerLines(canvas, pairMatches(leftItems, rightItems, (l: LeftItem, r: RightItem) => l.count === r.count)
+            .map(([l, r]): [Point, Point] => [
+              { x: SHEET_CENTER - DOT_OFFSET, y: rowMiddle(leftItems.indexOf(l)) },
+              { x: SHEET_CENTER + DOT_OFFSET, y: rowMiddle(rightItems.indexOf(r)) },
+            ]));
+        }
+      },
+    };
+  },
+};
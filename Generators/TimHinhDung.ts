@@ -0,0 +1,234 @@
+import { DifficultyModel, PuzzleGenerator, byAge, createRandom, describeAge, levelSettings } from '../utils';
+import { OptionsSchema, resolveOptions } from '../options';
+import { Type } from "@google/genai";
+import { Validated, fail, isIntegerInRange, isListOf, isNonEmptyString, isRecord, keepUnique, keepValid, requireArray, requireRecord, takeExactly } from '../validation';
+import { sanitizeSvg } from '../svg';
+import { generateContent } from '../content';
+
+export interface PuzzleData {
+    grid: string[];
+    options: string[];
+    correctOptionIndex: number;
+    missingIndex: number;
+}
+
+// Wrapped so the puzzle has the same shape as the game's saved state.
+export interface TimHinhDungPuzzle {
+    puzzle: PuzzleData;
+}
+
+const GAME_ID = 'pattern-find';
+
+// Gemini response schema definition
+const responseSchema = {
+    type: Type.OBJECT,
+    properties: {
+        grid: {
+            type: Type.ARRAY,
+            description: 'An array of 9 strings for a 3x3 grid. 8 items are SVG strings (viewBox="0 0 100 100"), and one is the string "MISSING".',
+            items: { type: Type.STRING },
+        },
+        options: {
+            type: Type.ARRAY,
+            description: 'An array of 5 SVG strings (viewBox="0 0 100 100") for the multiple-choice options.',
+            items: { type: Type.STRING },
+        },
+        correctOptionIndex: {
+            type: Type.INTEGER,
+            description: 'The index (0-4) of the correct answer within the options array.',
+        },
+    },
+    required: ['grid', 'options', 'correctOptionIndex'],
+};
+
+const GRID_SIZE = 9;
+const OPTION_COUNT = 5;
+
+export interface TimHinhDungSettings {
+  options: number; // The answer and its wrong options, at most OPTION_COUNT
+}
+
+export const difficulty: DifficultyModel<TimHinhDungSettings> = {
+  levels: [{ options: 3 }, { options: 4 }, { options: 5 }],
+  defaultLevel: 3,
+  describe: ({ options }) => [`${options} lựa chọn, ${options - 1} lựa chọn sai`],
+  secondsPerAnswer: 60,
+};
+
+export const optionsSchema: OptionsSchema<TimHinhDungSettings> = {
+  fields: [
+    { type: 'number', key: 'options', label: 'Số lựa chọn', min: 2, max: OPTION_COUNT },
+  ],
+  defaults: level => ({ ...levelSettings(difficulty, level) }),
+};
+
+// Keeps the answer and the first wrong options, with the answer where it was or last.
+const limitOptions = (puzzle: PuzzleData, count: number): PuzzleData => {
+  const { options, correctOptionIndex } = puzzle;
+  if (options.length <= count) return puzzle;
+  const wrong = options.filter((_, i) => i !== correctOptionIndex).slice(0, count - 1);
+  const index = Math.min(correctOptionIndex, count - 1);
+  return { ...puzzle, options: [...wrong.slice(0, index), options[correctOptionIndex], ...wrong.slice(index)], correctOptionIndex: index };
+};
+
+// A missing cell or answer cannot be invented; repeated options can be dropped while the answer stays.
+const validatePuzzle = (data: unknown): Validated<PuzzleData> => {
+    const repairs: string[] = [];
+    const root = requireRecord(data, 'the puzzle');
+
+    const rawGrid = requireArray(root.grid, 'grid');
+    const grid = rawGrid.filter(isNonEmptyString);
+    if (rawGrid.length !== GRID_SIZE || grid.length !== GRID_SIZE) fail(`Expected ${GRID_SIZE} grid cells with an SVG string each.`);
+    const missingCells = grid.filter(cell => cell.trim() === "MISSING").length;
+    if (missingCells !== 1) fail(`Expected exactly one MISSING cell, got ${missingCells}.`);
+
+    const options = requireArray(root.options, 'options');
+    if (!isIntegerInRange(root.correctOptionIndex, 0, options.length - 1)) {
+        fail(`correctOptionIndex ${root.correctOptionIndex} is not one of the ${options.length} options.`);
+    }
+    const correctOption = options[root.correctOptionIndex as number];
+    if (!isNonEmptyString(correctOption)) return fail("The correct option is not an SVG string.");
+
+    // The answer goes first while deduplicating so a repeated copy never replaces it
+    const otherOptions = keepValid(options.filter((_, i) => i !== root.correctOptionIndex), isNonEmptyString, 'options', repairs);
+    const [, ...distractors] = keepUnique([correctOption, ...otherOptions], option => option.trim(), 'options', repairs);
+    const keptDistractors = takeExactly(distractors, OPTION_COUNT - 1, 'wrong options', repairs);
+
+    // Put the answer back where it was, or at the end if options were dropped before it
+    const correctOptionIndex = Math.min(root.correctOptionIndex as number, keptDistractors.length);
+    const finalOptions = [...keptDistractors];
+    finalOptions.splice(correctOptionIndex, 0, correctOption);
+
+    // A puzzle with an unsafe drawing cannot be patched up; it is asked again, then a content pack one is used
+    const sanitize = (svg: string) => sanitizeSvg(svg) ?? fail("A drawing was rejected by the SVG sanitizer.");
+    const cells = grid.map(cell => cell.trim() === "MISSING" ? "MISSING" : sanitize(cell));
+    return {
+        value: { grid: cells, options: finalOptions.map(sanitize), correctOptionIndex, missingIndex: cells.indexOf("MISSING") },
+        repairs,
+    };
+};
+
+// Printed layout, matching the desktop styles: a 500px square grid above a row of options.
+const SHEET_WIDTH = 500;
+const GRID_PADDING = 12;
+const CELL_GAP = 10;
+const CELL_SIZE = (SHEET_WIDTH - GRID_PADDING * 2 - CELL_GAP * 2) / 3;
+const OPTION_SIZE = 80;
+const OPTION_GAP = 15;
+
+const buildPrompt = (childAge: string) => `Create a visual logic puzzle for children ${childAge}, inspired by classic IQ and pattern-reasoning tests (like Raven’s matrices or shape-color logic puzzles).
+
+### General Requirements:
+- The puzzle is displayed as a 3x3 grid, with one cell missing.
+- Each cell contains a combination of simple geometric shapes (circle, square, triangle, star, etc.) and colors (red, blue, yellow, green, orange, purple).
+- The design must be clean, colorful, and easy for children to understand visually.
+- The missing cell must be represented as the exact string 'MISSING'.
+- Provide 5 multiple-choice options (A–E) below the grid, one of which correctly completes the logical pattern.
+
+### Output Format (strict JSON schema):
+{
+  'grid': [9 strings],
+  'options': [5 strings],
+  'correctOptionIndex': integer
+}
+- Each non-missing grid item and each option must be a valid inline SVG string with viewBox="0 0 100 100".
+- Exactly one 'grid' item must be 'MISSING'.
+- 'correctOptionIndex' must correspond to the correct SVG in 'options'.
+
+### Design Logic (varied across puzzles):
+Each puzzle should follow one or a mix of these pattern types:
+1. **Shape progression** - outer or inner shapes rotate or change in order (circle → square → triangle).
+2. **Color progression** - colors shift in sequence (red → yellow → blue → red).
+3. **Position pattern** - inner shapes move position (top → middle → bottom).
+4. **Counting pattern** - number of shapes or elements increases or decreases across rows/columns.
+5. **Shape-color dependency** - certain shapes always have specific colors, or inner/outer combinations follow fixed rules.
+6. **Alternating logic** - rows alternate in pattern rule (e.g., color changes in row 1, shape changes in row 2).
+7. **Mixed composition** - outer and inner shapes differ (e.g., a blue circle containing a yellow triangle).
+
+### Examples of Variants:
+- Row-based pattern: each row changes shape, while color repeats down the column.
+- Column-based pattern: colors rotate vertically, while inner shapes rotate horizontally.
+- Combined pattern: both shape and color evolve together, forming a consistent logic grid.
+
+### Constraints:
+- Must remain visually solvable by young children (avoid too subtle patterns).
+- Distractor options must be plausible but break one element of the logic (e.g., wrong color or shape order).
+- Shapes and colors should contrast well visually.
+
+### Output Rules:
+- Output only the JSON object.
+- Do not include any markdown, explanation, or commentary.
+- The JSON must be syntactically valid and self-contained.
+`;
+
+// A puzzle from a library file or saved state, with its drawings sanitized; one that fails is refused.
+const parsePuzzle = (value: unknown): TimHinhDungPuzzle | null => {
+  const data = isRecord(value) ? value.puzzle : null;
+  if (!isRecord(data) || !isListOf(data.grid, isNonEmptyString) || !isListOf(data.options, isNonEmptyString)) return null;
+  if (data.grid.length !== GRID_SIZE || !isIntegerInRange(data.correctOptionIndex, 0, data.options.length - 1)) return null;
+  const grid = data.grid.map(cell => cell === "MISSING" ? cell : sanitizeSvg(cell));
+  const options = data.options.map(sanitizeSvg);
+  const missingIndex = grid.indexOf("MISSING");
+  if (missingIndex < 0 || grid.includes(null) || options.includes(null)) return null;
+  return { puzzle: { grid: grid as string[], options: options as string[], correctOptionIndex: data.correctOptionIndex, missingIndex } };
+};
+
+export const timHinhDungGenerator: PuzzleGenerator<TimHinhDungPuzzle, TimHinhDungSettings> = {
+  info: {
+    id: GAME_ID,
+    name: 'Tìm hình đúng',
+    description: 'Tìm ra quy luật của các hình và chọn hình còn thiếu trong dấu "?" từ các lựa chọn bên dưới.',
+    ageRange: { min: 6, max: 7 },
+    icon: '🧩',
+  },
+  difficulty,
+  optionsSchema,
+  agePreset: age => ({
+    level: byAge(age, [1, 1, 1, 1, 2, 3]),
+    pictureScale: byAge(age, [1.25, 1.25, 1.25, 1]),
+    reading: true,
+  }),
+  generate: async (seed, { level, age, options, signal } = {}) => {
+    const { value } = await generateContent({
+      key: GAME_ID,
+      prompt: buildPrompt(describeAge(timHinhDungGenerator.info.ageRange, age)),
+      schema: responseSchema,
+      temperature: 0.9,
+      signal,
+      validate: validatePuzzle,
+    }, createRandom(seed));
+    return { puzzle: limitOptions(value, resolveOptions(optionsSchema, options, level).options) };
+  },
+  validatePuzzle: parsePuzzle,
+  getWorksheet: ({ puzzle }, { answerKey = false } = {}) => {
+    const optionsTop = SHEET_WIDTH + 30;
+    return {
+      width: SHEET_WIDTH,
+      height: optionsTop + OPTION_SIZE,
+      breaks: [optionsTop],
+      draw: canvas => {
+        canvas.rect(1, 1, SHEET_WIDTH - 2, SHEET_WIDTH - 2, { fill: '#fafafa', stroke: '#dddddd', lineWidth: 2 }, 12);
+        puzzle.grid.forEach((item, index) => {
+          const x = GRID_PADDING + (index % 3) * (CELL_SIZE + CELL_GAP);
+          const y = GRID_PADDING + Math.floor(index / 3) * (CELL_SIZE + CELL_GAP);
+          canvas.rect(x, y, CELL_SIZE, CELL_SIZE, { fill: '#ffffff', stroke: '#eeeeee' }, 8);
+          const drawing = item === 'MISSING' ? (answerKey ? puzzle.options[puzzle.correctOptionIndex] : null) : item;
+          if (drawing) {
+            canvas.svg(drawing, x + CELL_SIZE * 0.1, y + CELL_SIZE * 0.1, CELL_SIZE * 0.8);
+          } else {
+            canvas.text('?', x + CELL_SIZE / 2, y + CELL_SIZE / 2, { size: 60, bold: true, color: '#29b6f6', align: 'center' });
+          }
+        });
+        const optionsLeft = (SHEET_WIDTH - puzzle.options.length * (OPTION_SIZE + OPTION_GAP) + OPTION_GAP) / 2;
+        puzzle.options.forEach((svg, index) => {
+          const x = optionsLeft + index * (OPTION_SIZE + OPTION_GAP);
+          const isAnswer = answerKey && index === puzzle.correctOptionIndex;
+          canvas.rect(x, optionsTop, OPTION_SIZE, OPTION_SIZE, {
+            fill: isAnswer ? '#e8f5e9' : '#ffffff', stroke: isAnswer ? '#66bb6a' : '#cccccc', lineWidth: 3,
+          }, 12);
+          canvas.svg(svg, x + 8, optionsTop + 8, OPTION_SIZE - 16);
+        });
+      },
+    };
+  },
+};
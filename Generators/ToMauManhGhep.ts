@@ -0,0 +1,231 @@
+import { DifficultyModel, PuzzleGenerator, byAge, createRandom, describeAge, levelSettings, shuffleArray } from '../utils';
+import { OptionsSchema, resolveOptions } from '../options';
+import { PdfCanvas } from '../pdf';
+import { sanitizeSvg } from '../svg';
+import { Type } from "@google/genai";
+import { Validated, fail, isListOf, isNonEmptyString, isRecord, keepValid, requireArray, requireRecord } from '../validation';
+import { generateContent } from '../content';
+
+export interface PuzzleTemplate {
+  pieces: string[]; // SVG path strings
+  colors: string[]; // Hex color codes
+  viewBox: string;
+}
+
+export interface PuzzleState {
+  id: number;
+  palette: string[];
+  pieceColors: string[]; // 'white' until the child colours the piece
+}
+
+// The copies keep their colours, so the same shape also holds the child's progress.
+export interface ToMauManhGhepPuzzle {
+  template: PuzzleTemplate;
+  referenceColors: string[];
+  puzzles: PuzzleState[];
+}
+
+const GAME_ID = 'color-puzzle';
+
+// Gemini response schema definition
+const responseSchema = {
+    type: Type.OBJECT,
+    properties: {
+        pieces: {
+            type: Type.ARRAY,
+            description: 'An array of 4-6 SVG path data strings (`d="..."`) that form a simple, interlocking geometric puzzle.',
+            items: { type: Type.STRING },
+        },
+        colors: {
+            type: Type.ARRAY,
+            description: 'An array of hex color codes that are vibrant and child-friendly, matching the number of pieces.',
+            items: { type: Type.STRING },
+        },
+        viewBox: {
+            type: Type.STRING,
+            description: 'The SVG viewBox string, typically "0 0 100 100".',
+        },
+    },
+    required: ['pieces', 'colors', 'viewBox'],
+};
+
+const MIN_PIECES = 3;
+const MAX_PIECES = 8;
+
+export interface ToMauManhGhepSettings {
+  copies: number; // Pictures to colour
+  pieces: [number, number]; // Pieces asked of the AI; content pack pictures keep theirs
+}
+
+export const difficulty: DifficultyModel<ToMauManhGhepSettings> = {
+  levels: [
+    { copies: 2, pieces: [3, 4] },
+    { copies: 4, pieces: [4, 5] },
+    { copies: 4, pieces: [5, 7] },
+  ],
+  defaultLevel: 3,
+  describe: ({ copies, pieces: [min, max] }) => [`${copies} hình cần tô`, `Khoảng ${min}–${max} mảnh mỗi hình`],
+  secondsPerAnswer: 60,
+};
+
+export const optionsSchema: OptionsSchema<ToMauManhGhepSettings> = {
+  fields: [
+    { type: 'number', key: 'copies', label: 'Số hình cần tô', min: 1, max: 6 },
+  ],
+  defaults: level => ({ ...levelSettings(difficulty, level) }),
+};
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+const VIEW_BOX = /^(-?[\d.]+[\s,]+){3}-?[\d.]+$/;
+// Used when a color is missing, malformed or repeated
+const SPARE_COLORS = ['#e74c3c', '#3498db', '#f1c40f', '#2ecc71', '#9b59b6', '#e67e22', '#e84393', '#1abc9c'];
+
+// Every piece needs its own color; colors are the easy part to fix, pieces are not.
+const validateTemplate = (data: unknown): Validated<PuzzleTemplate> => {
+  const repairs: string[] = [];
+  const root = requireRecord(data, 'the puzzle');
+
+  const pieces = keepValid(requireArray(root.pieces, 'pieces'), isNonEmptyString, 'pieces', repairs);
+  if (pieces.length < MIN_PIECES || pieces.length > MAX_PIECES) {
+    fail(`Expected ${MIN_PIECES}-${MAX_PIECES} pieces, got ${pieces.length}.`);
+  }
+
+  const rawColors = requireArray(root.colors, 'colors');
+  if (rawColors.length > pieces.length) repairs.push(`Dropped ${rawColors.length - pieces.length} extra colors.`);
+  const used = new Set<string>();
+  let replaced = 0;
+  const colors = pieces.map((_, i) => {
+    const color = rawColors[i];
+    if (typeof color === 'string' && HEX_COLOR.test(color) && !used.has(color.toLowerCase())) {
+      used.add(color.toLowerCase());
+      return color;
+    }
+    const spare = SPARE_COLORS.find(c => !used.has(c))!; // There are as many spares as pieces allowed
+    replaced++;
+    used.add(spare);
+    return spare;
+  });
+  if (replaced > 0) repairs.push(`Replaced ${replaced} missing, invalid or repeated colors.`);
+
+  let viewBox = typeof root.viewBox === 'string' ? root.viewBox.trim() : '';
+  if (!VIEW_BOX.test(viewBox)) {
+    viewBox = '0 0 100 100';
+    repairs.push("Replaced an invalid viewBox.");
+  }
+
+  return { value: { pieces, colors, viewBox }, repairs };
+};
+
+// Printed layout, matching the desktop styles: the model above a 2x2 grid of copies with their palettes.
+const SHEET_WIDTH = 500;
+const REFERENCE_SIZE = 150;
+const PUZZLE_SIZE = 120;
+const SWATCH_SIZE = 24;
+const SWATCH_GAP = 5;
+const GAP = 20;
+const INSTANCE_HEIGHT = PUZZLE_SIZE + 10 + SWATCH_SIZE;
+
+const buildPrompt = ([minPieces, maxPieces]: [number, number], childAge: string) => `
+          Create a visually appealing and intricate coloring puzzle for a child ${childAge}, similar to an abstract or stained-glass window pattern. The puzzle must fit perfectly within a square.
+
+          ### Requirements:
+          1.  **Design**: The puzzle should be composed of ${minPieces} to ${maxPieces} interlocking pieces formed by a combination of smooth, curved lines and straight lines that divide a 100x100 SVG canvas. The overall pattern should be abstract and artistic.
+          2.  **Completeness**: All pieces must fit together perfectly to fill the entire 100x100 square without any gaps or overlaps. The outer boundary of the combined puzzle pieces must form a perfect square from (0,0) to (100,100).
+          3.  **SVG Paths**: Generate an array of SVG path data strings for the 'pieces'. Each string must be a valid 'd' attribute for an SVG \`<path>\` element.
+          4.  **Colors**: Generate an array of vibrant, contrasting, and child-friendly hex color codes for the 'colors', with exactly one color for each piece.
+          5.  **ViewBox**: Provide a 'viewBox' string, which must be "0 0 100 100".
+
+          ### Output Format (Strict JSON):
+          Return the entire output as a single JSON object that strictly follows the provided schema. Do not include any text, markdown, or explanations outside of the JSON object.
+        `;
+
+const PATH_DATA = /^[\d\s.,eE+\-MmLlHhVvCcSsQqTtAaZz]+$/;
+const isPathData = (d: unknown): d is string => typeof d === 'string' && PATH_DATA.test(d);
+const isColor = (color: unknown): color is string => typeof color === 'string' && (HEX_COLOR.test(color) || color === 'white');
+const isPuzzleState = (item: unknown): item is PuzzleState =>
+  isRecord(item) && Number.isInteger(item.id) && isListOf(item.palette, isColor) && isListOf(item.pieceColors, isColor);
+
+// A puzzle from a library file or saved state, keeping only well-formed paths and colors.
+const parsePuzzle = (value: unknown): ToMauManhGhepPuzzle | null => {
+  if (!isRecord(value) || !isRecord(value.template) || !isListOf(value.referenceColors, isColor) || !isListOf(value.puzzles, isPuzzleState)) return null;
+  const { pieces, colors, viewBox } = value.template;
+  if (!isListOf(pieces, isPathData) || !isListOf(colors, isColor) || typeof viewBox !== 'string' || !VIEW_BOX.test(viewBox.trim())) return null;
+  return {
+    template: { pieces: [...pieces], colors: [...colors], viewBox: viewBox.trim() },
+    referenceColors: [...value.referenceColors],
+    puzzles: value.puzzles.map(({ id, palette, pieceColors }) => ({ id, palette: [...palette], pieceColors: [...pieceColors] })),
+  };
+};
+
+export const toMauManhGhepGenerator: PuzzleGenerator<ToMauManhGhepPuzzle, ToMauManhGhepSettings> = {
+  info: {
+    id: GAME_ID,
+    name: 'Tô màu mảnh ghép',
+    description: 'Quan sát hình mẫu ở trên và tô màu các mảnh ghép ở dưới sao cho giống hệt với hình mẫu.',
+    ageRange: { min: 3, max: 6 },
+    icon: '🎨',
+  },
+  difficulty,
+  optionsSchema,
+  agePreset: age => ({
+    level: byAge(age, [1, 1, 2, 3]),
+    pictureScale: byAge(age, [1.25, 1.25, 1]),
+    reading: true,
+  }),
+  generate: async (seed, { level, age, options, signal } = {}) => {
+    const random = createRandom(seed);
+    const { copies, pieces } = resolveOptions(optionsSchema, options, level);
+    const { value: template } = await generateContent({
+      key: GAME_ID,
+      prompt: buildPrompt(pieces, describeAge(toMauManhGhepGenerator.info.ageRange, age)),
+      schema: responseSchema,
+      temperature: 0.9,
+      signal,
+      validate: validateTemplate,
+    }, random);
+    const referenceColors = shuffleArray(template.colors, random);
+    return {
+      template,
+      referenceColors,
+      puzzles: Array.from({ length: copies }, (_, i) => ({
+        id: i,
+        palette: shuffleArray(referenceColors, random),
+        pieceColors: Array(template.pieces.length).fill('white'),
+      })),
+    };
+  },
+  validatePuzzle: parsePuzzle,
+  getWorksheet: ({ template, referenceColors, puzzles }, { answerKey = false } = {}) => {
+    const drawing = (colors: string[]) => sanitizeSvg(
+      `<svg viewBox="${template.viewBox}">${template.pieces.map((d, index) =>
+        `<path d="${d}" fill="${colors[index] || 'white'}" stroke="#333" stroke-width="2" />`).join('')}</svg>`
+    );
+    const drawPuzzle = (canvas: PdfCanvas, markup: string | null, x: number, y: number) => {
+      if (markup) canvas.svg(markup, x, y, PUZZLE_SIZE);
+      canvas.rect(x, y, PUZZLE_SIZE, PUZZLE_SIZE, { stroke: '#dddddd', lineWidth: 2 }, 8);
+    };
+    const reference = drawing(referenceColors);
+    const copy = answerKey ? reference : drawing([]);
+    const gridTop = REFERENCE_SIZE + GAP;
+    const columnWidth = (SHEET_WIDTH - GAP) / 2;
+    const rowCount = Math.ceil(puzzles.length / 2);
+    return {
+      width: SHEET_WIDTH,
+      height: gridTop + rowCount * (INSTANCE_HEIGHT + GAP) - GAP,
+      breaks: Array.from({ length: rowCount }, (_, row) => gridTop + row * (INSTANCE_HEIGHT + GAP)),
+      draw: canvas => {
+        const referenceLeft = (SHEET_WIDTH - REFERENCE_SIZE) / 2;
+        canvas.rect(referenceLeft, 0, REFERENCE_SIZE, REFERENCE_SIZE, { stroke: '#29b6f6', lineWidth: 2 }, 12);
+        drawPuzzle(canvas, reference, referenceLeft + (REFERENCE_SIZE - PUZZLE_SIZE) / 2, (REFERENCE_SIZE - PUZZLE_SIZE) / 2);
+        puzzles.forEach((puzzle, index) => {
+          const center = (index % 2) * (columnWidth + GAP) + columnWidth / 2;
+          const y = gridTop + Math.floor(index / 2) * (INSTANCE_HEIGHT + GAP);
+          drawPuzzle(canvas, copy, center - PUZZLE_SIZE / 2, y);
+          const paletteLeft = center - (puzzle.palette.length * (SWATCH_SIZE + SWATCH_GAP) - SWATCH_GAP) / 2;
+          puzzle.palette.forEach((color, swatch) => {
+            canvas.rect(paletteLeft + swatch * (SWATCH_SIZE + SWATCH_GAP), y + PUZZLE_SIZE + 10, SWATCH_SIZE, SWATCH_SIZE, { fill: color }, 4);
+          });
+        });
+      },
+    };
+  },
+};
@@ -0,0 +1,172 @@
+import { DifficultyModel, PuzzleGenerator, byAge, createRandom, levelSettings, shuffleArray } from '../utils';
+import { OptionsSchema, resolveOptions } from '../options';
+import { PdfCanvas } from '../pdf';
+import { Type } from "@google/genai";
+import { AiCancelledError, generateJson } from '../ai';
+import { Validated, fail, isListOf, isRecord, requireArray, requireRecord } from '../validation';
+import { ContentPackError, NO_CONTENT_MESSAGE, drawContent } from '../content';
+
+// Gemini response schema definition
+const responseSchema = {
+  type: Type.OBJECT,
+  properties: {
+    grid: {
+      type: Type.ARRAY,
+      description: 'An array of 25 numbers, where 1 represents a filled cell and 0 an empty cell, forming the character on a 5x5 grid.',
+      items: { type: Type.INTEGER },
+    },
+  },
+  required: ['grid'],
+};
+
+export const GRID_CELLS = 25;
+
+// Cells are read as filled or empty; a grid of the wrong size or with nothing filled is asked again.
+const validateGrid = (data: unknown): Validated<number[]> => {
+  const repairs: string[] = [];
+  const cells = requireArray(requireRecord(data, 'the pattern').grid, 'grid');
+  if (cells.length !== GRID_CELLS) fail(`Expected ${GRID_CELLS} cells, got ${cells.length}.`);
+  const grid = cells.map(cell => (cell === 1 || cell === true || cell === '1' ? 1 : 0));
+  const changed = cells.filter((cell, i) => cell !== grid[i]).length;
+  if (changed > 0) repairs.push(`Read ${changed} cells that were not 0 or 1.`);
+  if (!grid.includes(1)) fail("The pattern has no filled cells.");
+  return { value: grid, repairs };
+};
+
+export interface PatternRow {
+    id: number;
+    model: number[];
+    userGrid: number[]; // Dots the child filled in
+}
+
+// The copies keep their dots, so the same shape also holds the child's progress.
+export interface ToTracNghiemPuzzle {
+    patterns: PatternRow[];
+}
+
+const GAME_ID = 'multiple-choice-coloring';
+
+export interface ToTracNghiemSettings {
+  patterns: number;
+}
+
+export const difficulty: DifficultyModel<ToTracNghiemSettings> = {
+  levels: [{ patterns: 2 }, { patterns: 4 }, { patterns: 6 }, { patterns: 8 }],
+  defaultLevel: 4,
+  describe: ({ patterns }) => [`${patterns} hình cần tô`],
+  secondsPerAnswer: 40,
+};
+
+export const optionsSchema: OptionsSchema<ToTracNghiemSettings> = {
+  fields: [
+    { type: 'number', key: 'patterns', label: 'Số hình cần tô', min: 1, max: 10 },
+  ],
+  defaults: level => ({ ...levelSettings(difficulty, level) }),
+};
+
+const toPatternRows = (grids: number[][]): PatternRow[] =>
+    grids.map((model, index) => ({
+        id: index,
+        model: model,
+        userGrid: Array(GRID_CELLS).fill(0),
+    }));
+
+// Printed layout, matching the desktop styles: two columns of model -> copy rows.
+const SHEET_WIDTH = 740;
+const COLUMN_GAP = 40;
+const ROW_GAP = 20;
+const GRID_SIZE = 150;
+const GRID_INSET = 10; // Border and padding
+const DOT_GAP = 6;
+const DOT_SIZE = (GRID_SIZE - GRID_INSET * 2 - DOT_GAP * 4) / 5;
+const ARROW_SPACE = 68;
+
+const drawGrid = (canvas: PdfCanvas, grid: number[], x: number, y: number) => {
+    canvas.rect(x + 1, y + 1, GRID_SIZE - 2, GRID_SIZE - 2, { fill: '#f9f9f9', stroke: '#e0e0e0', lineWidth: 2 }, 8);
+    grid.forEach((dot, index) => {
+        const cx = x + GRID_INSET + (index % 5) * (DOT_SIZE + DOT_GAP) + DOT_SIZE / 2;
+        const cy = y + GRID_INSET + Math.floor(index / 5) * (DOT_SIZE + DOT_GAP) + DOT_SIZE / 2;
+        const color = dot === 1 ? '#333333' : '#cccccc';
+        canvas.circle(cx, cy, DOT_SIZE / 2 - 1, { fill: dot === 1 ? color : '#ffffff', stroke: color, lineWidth: 2 });
+    });
+};
+
+const isCell = (cell: unknown): cell is number => cell === 0 || cell === 1;
+const isGrid = (grid: unknown): grid is number[] => isListOf(grid, isCell) && grid.length === GRID_CELLS;
+const isPattern = (row: unknown): row is PatternRow => isRecord(row) && Number.isInteger(row.id) && isGrid(row.model) && isGrid(row.userGrid);
+
+// A puzzle from a library file or saved state, keeping only the fields the game uses.
+const parsePuzzle = (value: unknown): ToTracNghiemPuzzle | null =>
+  isRecord(value) && isListOf(value.patterns, isPattern)
+    ? { patterns: value.patterns.map(({ id, model, userGrid }) => ({ id, model: [...model], userGrid: [...userGrid] })) }
+    : null;
+
+export const toTracNghiemGenerator: PuzzleGenerator<ToTracNghiemPuzzle, ToTracNghiemSettings> = {
+  info: {
+    id: GAME_ID,
+    name: 'Tô trắc nghiệm',
+    description: 'Tô màu các ô tròn ở cột bên phải để tạo thành hình giống hệt với mẫu ở cột bên trái.',
+    ageRange: { min: 4, max: 7 },
+    icon: '⚫',
+  },
+  difficulty,
+  optionsSchema,
+  agePreset: age => ({
+    level: byAge(age, [1, 1, 1, 2, 3, 4]),
+    pictureScale: byAge(age, [1.25, 1.25, 1]),
+    reading: true,
+  }),
+  generate: async (seed, { level, options, signal } = {}) => {
+    const random = createRandom(seed);
+    const { patterns } = resolveOptions(optionsSchema, options, level);
+    try {
+      const characters = '0123456789abcdefghijklmnopqrstuvwxyz'.split('');
+      const selectedChars = shuffleArray(characters, random).slice(0, patterns);
+
+      const grids = await Promise.all(selectedChars.map(char => {
+        const prompt = `Generate a pixel art representation of the character '${char}' on a 5x5 grid. The output should be a single JSON object containing a 'grid' property, which is an array of 25 numbers (either 0 for an empty cell or 1 for a filled cell). Do not include any text or markdown formatting outside of the JSON object.`;
+
+        return generateJson({
+          key: GAME_ID,
+          prompt,
+          schema: responseSchema,
+          signal,
+          validate: validateGrid,
+        });
+      }));
+      return { patterns: toPatternRows(grids) };
+    } catch (e) {
+      if (e instanceof AiCancelledError) throw e;
+      console.warn(`[${GAME_ID}] AI content unavailable (${e instanceof Error ? e.message : e}). Loading content pack patterns.`);
+      const items = drawContent(GAME_ID, validateGrid, random, { count: patterns });
+      if (items.length === 0) throw new ContentPackError(NO_CONTENT_MESSAGE, e);
+      return { patterns: toPatternRows(items.map(item => item.value)) };
+    }
+  },
+  validatePuzzle: parsePuzzle,
+  getWorksheet: ({ patterns }, { answerKey = false } = {}) => {
+    const columnWidth = (SHEET_WIDTH - COLUMN_GAP) / 2;
+    const rowWidth = GRID_SIZE * 2 + ARROW_SPACE;
+    const rowCount = Math.ceil(patterns.length / 2);
+    return {
+      width: SHEET_WIDTH,
+      height: rowCount * (GRID_SIZE + ROW_GAP) - ROW_GAP,
+      breaks: Array.from({ length: rowCount }, (_, row) => row * (GRID_SIZE + ROW_GAP)),
+      draw: canvas => {
+        patterns.forEach((row, index) => {
+          const x = (index % 2) * (columnWidth + COLUMN_GAP) + (columnWidth - rowWidth) / 2;
+          const y = Math.floor(index / 2) * (GRID_SIZE + ROW_GAP);
+          drawGrid(canvas, row.model, x, y);
+          // The arrow glyph is missing from the PDF font, so it is drawn
+          const arrowLeft = x + GRID_SIZE + 20;
+          const middle = y + GRID_SIZE / 2;
+          canvas.line({ x: arrowLeft, y: middle }, { x: arrowLeft + 16, y: middle }, { stroke: '#555555', lineWidth: 4 });
+          canvas.polygon([
+            { x: arrowLeft + 14, y: middle - 9 }, { x: arrowLeft + 28, y: middle }, { x: arrowLeft + 14, y: middle + 9 },
+          ], { fill: '#555555' });
+          drawGrid(canvas, answerKey ? row.model : row.model.map(() => 0), x + GRID_SIZE + ARROW_SPACE, y);
+        });
+      },
+    };
+  },
+};
@@ -0,0 +1,166 @@
+import React, { useLayoutEffect, useRef, useState } from 'react';
+import { checkClassName } from './utils';
+import type { Point } from './pdf';
+import { Connection, anchorPoint, useConnectDrag } from './matching';
+import './Styles/MatchingBoard.css';
+
+export interface MatchingItem {
+  id: string;
+}
+
+interface MatchingBoardProps<L extends MatchingItem, R extends MatchingItem> {
+  className: string; // The game's own layout, e.g. "noi-bong-game"
+  leftItems: L[];
+  rightItems: R[];
+  renderLeft: (item: L) => React.ReactNode;
+  renderRight: (item: R) => React.ReactNode;
+  leftClassName?: string;
+  rightClassName?: string;
+  connections: Connection[];
+  onConnectionsChange: (connections: Connection[]) => void;
+  // Pairs that cannot be joined shake instead; by default any pair can
+  canConnect?: (left: L, right: R) => boolean;
+  onRefuse?: (left: L, right: R) => void; // Told about each pair canConnect turned down
+  // Lines an item can have, its oldest giving way to new ones; above 1 for N-to-N matching
+  maxLines?: number;
+  // Lines join dots next to the cards instead of the cards' facing edges
+  dots?: boolean;
+  checked: Record<string, boolean> | null;
+  lineWidth?: number;
+}
+
+// Two columns of cards joined by lines, shared by the matching games. The lines are SVG over the
+// cards, measured again whenever the board, a card or anything around it resizes or scrolls.
+const MatchingBoard = <L extends MatchingItem, R extends MatchingItem>({
+  className, leftItems, rightItems, renderLeft, renderRight, leftClassName = '', rightClassName = '',
+  connections, onConnectionsChange, canConnect = () => true, onRefuse, maxLines = 1, dots = false, checked, lineWidth = 3,
+}: MatchingBoardProps<L, R>) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const anchorRefs = useRef<Record<string, HTMLDivElement | null>>({}); // The dot, or the card itself
+  const [anchors, setAnchors] = useState<Record<string, Point>>({});
+
+  const isLeft = (id: string) => leftItems.some(item => item.id === id);
+  const anchorOf = (id: string) => {
+    const el = anchorRefs.current[id];
+    if (!el || !containerRef.current) return null;
+    return anchorPoint(el, containerRef.current, dots ? 'center' : isLeft(id) ? 'right' : 'left');
+  };
+
+  const measure = () => {
+    const measured: Record<string, Point> = {};
+    [...leftItems, ...rightItems].forEach(({ id }) => {
+      const point = anchorOf(id);
+      if (point) measured[id] = point;
+    });
+    setAnchors(measured);
+  };
+  const measureRef = useRef(measure);
+  measureRef.current = measure;
+
+  useLayoutEffect(() => {
+    measureRef.current();
+    const container = containerRef.current;
+    if (!container) return;
+    let frame = 0;
+    const schedule = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => measureRef.current());
+    };
+    const observer = new ResizeObserver(schedule);
+    observer.observe(container);
+    container.querySelectorAll('.match-item').forEach(el => observer.observe(el));
+    window.addEventListener('resize', schedule);
+    window.addEventListener('scroll', schedule, true); // Scrolling of any element, not only the page
+    return () => {
+      cancelAnimationFrame(frame);
+      observer.disconnect();
+      window.removeEventListener('resize', schedule);
+      window.removeEventListener('scroll', schedule, true);
+    };
+  }, [leftItems, rightItems, dots]);
+
+  const connect = (leftId: string, rightId: string) => {
+    if (connections.some(([l, r]) => l === leftId && r === rightId)) return;
+    let next: Connection[] = [...connections, [leftId, rightId]];
+    const keepNewest = (end: 0 | 1, id: string) => {
+      const own = next.filter(c => c[end] === id);
+      const dropped = own.slice(0, Math.max(0, own.length - maxLines));
+      next = next.filter(c => !dropped.includes(c));
+    };
+    keepNewest(0, leftId);
+    keepNewest(1, rightId);
+    onConnectionsChange(next);
+  };
+
+  const itemsOf = (leftId: string, rightId: string) =>
+    [leftItems.find(item => item.id === leftId), rightItems.find(item => item.id === rightId)] as const;
+
+  const drag = useConnectDrag({
+    containerRef,
+    connections,
+    isLeft,
+    anchorOf,
+    canConnect: (leftId, rightId) => {
+      const [left, right] = itemsOf(leftId, rightId);
+      return !!left && !!right && canConnect(left, right);
+    },
+    onConnect: connect,
+    onRefuse: (leftId, rightId) => {
+      const [left, right] = itemsOf(leftId, rightId);
+      if (left && right) onRefuse?.(left, right);
+    },
+    onDisconnect: connection => onConnectionsChange(connections.filter(c => c !== connection)),
+  });
+
+  const itemClassName = (id: string) => [
+    'match-item',
+    drag.isSelected(id) && 'selected',
+    drag.isTarget(id) && 'drop-target',
+    drag.isRejected(id) && 'rejected',
+    checkClassName(checked, id),
+  ].filter(Boolean).join(' ');
+
+  const renderSide = <T extends MatchingItem,>(items: T[], render: (item: T) => React.ReactNode, side: 'left' | 'right', extraClassName: string) => (
+    <div className={`matching-column ${side}-column`}>
+      {items.map(item => {
+        const card = (
+          <div
+            key={item.id}
+            ref={dots ? undefined : el => { anchorRefs.current[item.id] = el; }}
+            className={`${itemClassName(item.id)} ${extraClassName}`}
+            {...drag.itemProps(item.id)}
+          >
+            {render(item)}
+          </div>
+        );
+        if (!dots) return card;
+        const dot = <div ref={el => { anchorRefs.current[item.id] = el; }} className="connection-dot" {...drag.itemProps(item.id)} />;
+        return (
+          <div key={item.id} className="match-row">
+            {side === 'left' ? <>{card}{dot}</> : <>{dot}{card}</>}
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  const line = ([from, to]: [Point, Point], key: string, lineClassName?: string) => (
+    <line key={key} className={lineClassName} x1={from.x} y1={from.y} x2={to.x} y2={to.y} strokeWidth={lineWidth} />
+  );
+
+  return (
+    <div ref={containerRef} className={`matching-game-container ${className}`} {...drag.containerProps}>
+      <svg className="matching-lines" aria-hidden="true">
+        {connections.map(([leftId, rightId]) =>
+          anchors[leftId] && anchors[rightId] ? line([anchors[leftId], anchors[rightId]], `${leftId}:${rightId}`) : null
+        )}
+        {drag.preview && line(drag.preview, 'preview', 'preview')}
+      </svg>
+      {renderSide(leftItems, renderLeft, 'left', leftClassName)}
+      {dots && <div className="separator-line"></div>}
+      {renderSide(rightItems, renderRight, 'right', rightClassName)}
+    </div>
+  );
+};
+
+export default MatchingBoard;
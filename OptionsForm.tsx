@@ -0,0 +1,91 @@
+import React from 'react';
+import { GameOptions, OptionField, OptionValue } from './options';
+
+interface OptionsFormProps {
+  fields: OptionField[];
+  values: GameOptions; // What the teacher set
+  defaults: GameOptions; // Shown for the fields left unset
+  errors: Record<string, string>;
+  onChange: (values: GameOptions) => void;
+}
+
+// Renders a game's options schema; any field the teacher touches is kept as their value.
+const OptionsForm: React.FC<OptionsFormProps> = ({ fields, values, defaults, errors, onChange }) => {
+  const set = (key: string, value: OptionValue) => onChange({ ...values, [key]: value });
+  const current = (field: OptionField) => field.key in values ? values[field.key] : defaults[field.key];
+
+  const renderInput = (field: OptionField) => {
+    const id = `option-${field.key}`;
+    const value = current(field);
+    switch (field.type) {
+      case 'text':
+        return (
+          <input
+            id={id}
+            type="text"
+            value={String(value ?? '')}
+            maxLength={field.maxLength}
+            placeholder={field.placeholder}
+            onChange={e => set(field.key, e.target.value)}
+          />
+        );
+      case 'number':
+        return (
+          <input
+            id={id}
+            type="number"
+            min={field.min}
+            max={field.max}
+            value={typeof value === 'number' && !Number.isNaN(value) ? value : ''}
+            onChange={e => set(field.key, e.target.value === '' ? NaN : Number(e.target.value))}
+          />
+        );
+      case 'choice':
+        return (
+          <select id={id} value={String(value ?? '')} onChange={e => set(field.key, e.target.value)}>
+            {field.choices.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+          </select>
+        );
+      case 'multi': {
+        const selected = Array.isArray(value) ? value : [];
+        // Kept in the order of the choices, whatever order they were ticked in
+        const toggle = (choice: string, on: boolean) =>
+          set(field.key, field.choices.map(c => c.value).filter(v => v === choice ? on : selected.includes(v)));
+        return (
+          <div className="option-choices">
+            {field.choices.map(c => (
+              <label key={c.value} className="checkbox-row">
+                <input type="checkbox" checked={selected.includes(c.value)} onChange={e => toggle(c.value, e.target.checked)} />
+                {c.label} ({c.value})
+              </label>
+            ))}
+          </div>
+        );
+      }
+      case 'toggle':
+        return (
+          <label className="checkbox-row">
+            <input type="checkbox" checked={value === true} onChange={e => set(field.key, e.target.checked)} />
+            {field.label}
+          </label>
+        );
+    }
+  };
+
+  return (
+    <div className="options-form">
+      {fields.map(field => (
+        <div key={field.key} className={`option-field ${field.key in values ? 'changed' : ''} ${errors[field.key] ? 'invalid' : ''}`}>
+          {field.type !== 'toggle' && <label htmlFor={`option-${field.key}`}>{field.label}</label>}
+          {renderInput(field)}
+          {errors[field.key] && <div className="option-error">{errors[field.key]}</div>}
+        </div>
+      ))}
+      {Object.keys(values).length > 0 && (
+        <button className="options-reset" onClick={() => onChange({})}>Theo mức độ khó và độ tuổi</button>
+      )}
+    </div>
+  );
+};
+
+export default OptionsForm;
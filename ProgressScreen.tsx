@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { AGES, DEFAULT_AGE } from './utils';
+import { getGame } from './registry';
+import { AVATARS, ChildProfile, SKILL_NAMES, createProfile, deleteProfile, getHistory, saveProfile, summarizeGames, summarizeSkills } from './progress';
+import { clearPinnedLevels } from './difficulty';
+import './Styles/ProgressScreen.css';
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds} giây` : `${Math.floor(seconds / 60)} phút ${seconds % 60} giây`;
+};
+
+interface AvatarPickerProps {
+  value: string;
+  onChange: (avatar: string) => void;
+}
+
+const AvatarPicker: React.FC<AvatarPickerProps> = ({ value, onChange }) => (
+  <div className="avatar-picker">
+    {AVATARS.map(avatar => (
+      <button key={avatar} className={`avatar-option ${avatar === value ? 'active' : ''}`} onClick={() => onChange(avatar)} aria-label={`Avatar ${avatar}`}>
+        {avatar}
+      </button>
+    ))}
+  </div>
+);
+
+interface ProgressScreenProps {
+  profiles: ChildProfile[];
+  activeProfile: ChildProfile | null;
+  onProfilesChange: (profiles: ChildProfile[]) => void;
+  onSelect: (profileId: string | null) => void;
+}
+
+const ProgressScreen: React.FC<ProgressScreenProps> = ({ profiles, activeProfile, onProfilesChange, onSelect }) => {
+  const [newName, setNewName] = useState('');
+  const [newAge, setNewAge] = useState(DEFAULT_AGE);
+  const [newAvatar, setNewAvatar] = useState(AVATARS[0]);
+
+  const addProfile = () => {
+    const name = newName.trim();
+    if (!name) return;
+    const profile = createProfile({ name, age: newAge, avatar: newAvatar });
+    onProfilesChange(saveProfile(profile));
+    onSelect(profile.id);
+    setNewName('');
+  };
+
+  const update = (changes: Partial<ChildProfile>) => {
+    if (activeProfile) onProfilesChange(saveProfile({ ...activeProfile, ...changes }));
+  };
+
+  const remove = () => {
+    if (!activeProfile || !window.confirm(`Xóa hồ sơ của ${activeProfile.name} và toàn bộ kết quả?`)) return;
+    onProfilesChange(deleteProfile(activeProfile.id));
+    clearPinnedLevels(activeProfile.id);
+    onSelect(null);
+  };
+
+  const history = activeProfile ? getHistory(activeProfile.id) : [];
+  const games = summarizeGames(history);
+  const skills = summarizeSkills(history);
+
+  return (
+    <div className="progress-screen">
+      <h2>Tiến bộ của bé</h2>
+
+      {activeProfile ? (
+        <div className="profile-card">
+          <div className="profile-card-row">
+            <span className="profile-avatar">{activeProfile.avatar}</span>
+            <input
+              className="profile-name"
+              value={activeProfile.name}
+              onChange={e => update({ name: e.target.value })}
+              aria-label="Child name"
+            />
+            <select value={activeProfile.age} onChange={e => update({ age: Number(e.target.value) })} aria-label="Child age">
+              {AGES.map(a => <option key={a} value={a}>{a} tuổi</option>)}
+            </select>
+          </div>
+          <AvatarPicker value={activeProfile.avatar} onChange={avatar => update({ avatar })} />
+          <button className="profile-delete" onClick={remove}>Xóa hồ sơ</button>
+        </div>
+      ) : (
+        <p className="progress-hint">
+          {profiles.length > 0 ? 'Chọn bé ở mục "Bé đang chơi" để xem kết quả.' : 'Thêm hồ sơ cho bé để ghi lại kết quả mỗi lần bấm "Kiểm tra".'}
+        </p>
+      )}
+
+      {activeProfile && (history.length === 0 ? (
+        <div className="progress-empty">{activeProfile.name} chưa làm bài nào. Kết quả được ghi lại mỗi lần bấm "Kiểm tra".</div>
+      ) : (
+        <>
+          <section className="progress-section">
+            <h3>Kĩ năng</h3>
+            <ul className="skill-list">
+              {skills.map(summary => (
+                <li key={summary.skill} className={`skill-row ${summary.struggling ? 'struggling' : ''}`}>
+                  <span className="skill-name">
+                    {SKILL_NAMES[summary.skill]} {summary.gameIds.map(id => getGame(id)?.icon).join('')}
+                  </span>
+                  <span className="skill-bar"><span style={{ width: `${Math.round(summary.accuracy * 100)}%` }} /></span>
+                  <span className="skill-value">{Math.round(summary.accuracy * 100)}%</span>
+                  {summary.struggling && <span className="skill-flag">Cần luyện thêm</span>}
+                </li>
+              ))}
+            </ul>
+          </section>
+
+          <section className="progress-section">
+            <h3>Từng trò chơi</h3>
+            <ul className="game-progress-list">
+              {games.map(summary => {
+                const game = getGame(summary.gameId);
+                return (
+                  <li key={summary.gameId} className="game-progress-card">
+                    <div className="game-progress-title">{game?.icon} {game?.name ?? summary.gameId}</div>
+                    <div className="score-chart" aria-label="Recent scores">
+                      {summary.recentScores.map((score, i) => (
+                        <span key={i} style={{ height: `${Math.max(score, 4)}%` }} title={`${score} điểm`} />
+                      ))}
+                    </div>
+                    <div className="game-progress-meta">
+                      {summary.played} bài · {summary.completed} bài đúng hết · điểm trung bình {summary.averageScore}
+                    </div>
+                    <div className="game-progress-meta">
+                      {formatDuration(summary.averageDurationMs)} mỗi bài · {summary.averageMistakes.toFixed(1)} lỗi mỗi bài
+                    </div>
+                    {summary.trend !== null && (
+                      <div className={`game-progress-trend ${summary.trend < 0 ? 'down' : 'up'}`}>
+                        {summary.trend < 0 ? '↓' : '↑'} {summary.trend > 0 ? '+' : ''}{summary.trend} điểm so với các bài trước
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+        </>
+      ))}
+
+      <section className="progress-section">
+        <h3>Thêm bé</h3>
+        <div className="profile-card">
+          <div className="profile-card-row">
+            <span className="profile-avatar">{newAvatar}</span>
+            <input
+              className="profile-name"
+              placeholder="Tên của bé"
+              value={newName}
+              onChange={e => setNewName(e.target.value)}
+              onKeyDown={e => { if (e.key === 'Enter') addProfile(); }}
+              aria-label="New child name"
+            />
+            <select value={newAge} onChange={e => setNewAge(Number(e.target.value))} aria-label="New child age">
+              {AGES.map(a => <option key={a} value={a}>{a} tuổi</option>)}
+            </select>
+          </div>
+          <AvatarPicker value={newAvatar} onChange={setNewAvatar} />
+          <button className="btn btn-check" onClick={addProfile} disabled={!newName.trim()}>Thêm bé</button>
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default ProgressScreen;
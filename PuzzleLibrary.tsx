@@ -0,0 +1,210 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { getGames, getGame } from './registry';
+import { LibraryError, LibraryPuzzle, deletePuzzle, exportPuzzles, importPuzzles, listPuzzles, putPuzzle, searchPuzzles } from './library';
+import './Styles/PuzzleLibrary.css';
+
+const AGES = Array.from({ length: 9 }, (_, i) => i + 2);
+
+interface PuzzleLibraryProps {
+  onOpen: (puzzle: LibraryPuzzle) => void;
+}
+
+const PuzzleLibrary: React.FC<PuzzleLibraryProps> = ({ onOpen }) => {
+  const games = getGames();
+  const [puzzles, setPuzzles] = useState<LibraryPuzzle[] | null>(null);
+  const [text, setText] = useState('');
+  const [gameId, setGameId] = useState('');
+  const [age, setAge] = useState('');
+  const [favouritesOnly, setFavouritesOnly] = useState(false);
+  const [tagInputs, setTagInputs] = useState<Record<string, string>>({});
+  const [message, setMessage] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const describeError = (e: unknown) => e instanceof LibraryError ? e.message : "Đã xảy ra lỗi không xác định.";
+
+  const reload = async () => {
+    try {
+      setPuzzles(await listPuzzles());
+    } catch (e) {
+      console.error("Error loading the library:", e);
+      setPuzzles([]);
+      setMessage(describeError(e));
+    }
+  };
+
+  useEffect(() => {
+    reload();
+  }, []);
+
+  const update = async (puzzle: LibraryPuzzle, changes: Partial<LibraryPuzzle>) => {
+    const updated = { ...puzzle, ...changes };
+    setPuzzles(prev => prev && prev.map(p => p.id === puzzle.id ? updated : p));
+    try {
+      await putPuzzle(updated);
+    } catch (e) {
+      console.error("Error saving a library puzzle:", e);
+      setMessage(describeError(e));
+      reload();
+    }
+  };
+
+  const addTag = (puzzle: LibraryPuzzle) => {
+    const tag = (tagInputs[puzzle.id] ?? '').trim();
+    setTagInputs(prev => ({ ...prev, [puzzle.id]: '' }));
+    if (tag && !puzzle.themes.includes(tag)) update(puzzle, { themes: [...puzzle.themes, tag] });
+  };
+
+  const updateAges = (puzzle: LibraryPuzzle, bound: 'min' | 'max', value: number) => {
+    const ages = { ...puzzle.ages, [bound]: value };
+    // Keep the range the right way round whichever end moved
+    if (ages.min > ages.max) ages[bound === 'min' ? 'max' : 'min'] = value;
+    update(puzzle, { ages });
+  };
+
+  const remove = async (puzzle: LibraryPuzzle) => {
+    if (!window.confirm(`Xóa "${puzzle.title}" khỏi thư viện?`)) return;
+    try {
+      await deletePuzzle(puzzle.id);
+      setPuzzles(prev => prev && prev.filter(p => p.id !== puzzle.id));
+    } catch (e) {
+      console.error("Error deleting a library puzzle:", e);
+      setMessage(describeError(e));
+    }
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      const { imported, skipped } = await importPuzzles(file);
+      setMessage(`Đã nhập ${imported} bài${skipped > 0 ? `, bỏ qua ${skipped} bài không dùng được` : ''}.`);
+    } catch (e) {
+      console.error("Error importing puzzles:", e);
+      setMessage(describeError(e));
+    }
+    reload();
+  };
+
+  const results = searchPuzzles(puzzles ?? [], {
+    text,
+    gameId: gameId || undefined,
+    age: age ? Number(age) : undefined,
+    favouritesOnly,
+  });
+
+  return (
+    <div className="puzzle-library">
+      <h2>Thư viện bài tập</h2>
+      <p className="library-hint">Lưu bài đang chơi bằng nút "Lưu vào thư viện", rồi gắn chủ đề và độ tuổi để tìm lại sau.</p>
+
+      <div className="library-filters">
+        <input
+          type="search"
+          className="library-search"
+          placeholder="Tìm theo tên hoặc chủ đề..."
+          value={text}
+          onChange={e => setText(e.target.value)}
+          aria-label="Search puzzles"
+        />
+        <div className="library-filter-row">
+          <select value={gameId} onChange={e => setGameId(e.target.value)} aria-label="Filter by game">
+            <option value="">Tất cả trò chơi</option>
+            {games.map(g => <option key={g.id} value={g.id}>{g.icon} {g.name}</option>)}
+          </select>
+          <select value={age} onChange={e => setAge(e.target.value)} aria-label="Filter by age">
+            <option value="">Mọi độ tuổi</option>
+            {AGES.map(a => <option key={a} value={a}>{a} tuổi</option>)}
+          </select>
+        </div>
+        <label className="checkbox-row">
+          <input type="checkbox" checked={favouritesOnly} onChange={e => setFavouritesOnly(e.target.checked)} />
+          Chỉ bài yêu thích
+        </label>
+      </div>
+
+      <div className="library-actions">
+        <button className="btn btn-export" onClick={() => exportPuzzles(results)} disabled={results.length === 0}>Xuất JSON ({results.length})</button>
+        <button className="btn btn-generate" onClick={() => importInputRef.current?.click()}>Nhập JSON</button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".json,application/json"
+          hidden
+          onChange={e => {
+            const file = e.target.files?.[0];
+            e.target.value = ''; // Lets the same file be picked again
+            if (file) importFile(file);
+          }}
+        />
+      </div>
+      {message && <div className="library-message">{message}</div>}
+
+      {puzzles === null ? (
+        <div className="library-empty">Đang tải thư viện...</div>
+      ) : results.length === 0 ? (
+        <div className="library-empty">{puzzles.length === 0 ? 'Thư viện còn trống.' : 'Không có bài nào phù hợp.'}</div>
+      ) : (
+        <ul className="library-list">
+          {results.map(puzzle => {
+            const game = getGame(puzzle.gameId);
+            return (
+              <li key={puzzle.id} className="library-card">
+                <div className="library-card-header">
+                  <button
+                    className={`library-favourite ${puzzle.favourite ? 'active' : ''}`}
+                    onClick={() => update(puzzle, { favourite: !puzzle.favourite })}
+                    aria-label={puzzle.favourite ? 'Remove from favourites' : 'Add to favourites'}
+                  >
+                    {puzzle.favourite ? '★' : '☆'}
+                  </button>
+                  <input
+                    className="library-title"
+                    value={puzzle.title}
+                    onChange={e => update(puzzle, { title: e.target.value })}
+                    aria-label="Puzzle title"
+                  />
+                </div>
+                <div className="library-meta">
+                  {game?.icon} {game?.name} · Mã đề {puzzle.seed} · {new Date(puzzle.createdAt).toLocaleDateString('vi-VN')}
+                </div>
+
+                <div className="library-tags">
+                  {puzzle.themes.map(theme => (
+                    <span key={theme} className="library-tag">
+                      {theme}
+                      <button onClick={() => update(puzzle, { themes: puzzle.themes.filter(t => t !== theme) })} aria-label={`Remove ${theme}`}>×</button>
+                    </span>
+                  ))}
+                  <input
+                    className="library-tag-input"
+                    placeholder="+ chủ đề"
+                    value={tagInputs[puzzle.id] ?? ''}
+                    onChange={e => setTagInputs(prev => ({ ...prev, [puzzle.id]: e.target.value }))}
+                    onKeyDown={e => { if (e.key === 'Enter') addTag(puzzle); }}
+                    onBlur={() => addTag(puzzle)}
+                    aria-label="Add theme"
+                  />
+                </div>
+
+                <div className="library-card-footer">
+                  <span className="library-ages">
+                    Tuổi
+                    <select value={puzzle.ages.min} onChange={e => updateAges(puzzle, 'min', Number(e.target.value))} aria-label="Minimum age">
+                      {AGES.map(a => <option key={a} value={a}>{a}</option>)}
+                    </select>
+                    –
+                    <select value={puzzle.ages.max} onChange={e => updateAges(puzzle, 'max', Number(e.target.value))} aria-label="Maximum age">
+                      {AGES.map(a => <option key={a} value={a}>{a}</option>)}
+                    </select>
+                  </span>
+                  <button className="btn btn-check library-open" onClick={() => onOpen(puzzle)}>Mở</button>
+                  <button className="library-delete" onClick={() => remove(puzzle)}>Xóa</button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PuzzleLibrary;
@@ -0,0 +1,268 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { GoogleGenAI, Schema } from "@google/genai";
+import type { Validated } from './validation';
+import type { TextField } from './options';
+
+// --- Errors ---
+// Every failure of the content service is one of these, so games never need to inspect messages.
+
+export class AiError extends Error {
+  constructor(message: string, public readonly cause?: unknown) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class AiQuotaError extends AiError {}       // Rate limit or exhausted quota (HTTP 429)
+export class AiNetworkError extends AiError {}     // Service unreachable or failing (HTTP 5xx, offline)
+export class AiTimeoutError extends AiError {}     // No answer within the time limit
+export class AiCancelledError extends AiError {}   // The caller aborted the request
+export class AiInvalidJsonError extends AiError {} // The answer is not JSON
+export class AiSchemaError extends AiError {}      // The JSON does not have the expected shape
+
+// True when no content can be had right now and a game should fall back to its bundled data.
+export const isAiUnavailable = (e: unknown): boolean =>
+  e instanceof AiQuotaError || e instanceof AiNetworkError || e instanceof AiTimeoutError;
+
+// Short Vietnamese message for the UI.
+export const describeAiError = (e: unknown): string => {
+  if (e instanceof AiQuotaError) return "Lượt truy cập API đã hết.";
+  if (e instanceof AiTimeoutError) return "Máy chủ AI phản hồi quá lâu.";
+  if (e instanceof AiNetworkError) return "Không kết nối được máy chủ AI.";
+  if (e instanceof AiInvalidJsonError || e instanceof AiSchemaError) return "Dữ liệu từ AI không hợp lệ.";
+  return "Đã xảy ra lỗi không xác định.";
+};
+
+// --- Prompts ---
+
+export const MAX_THEME_LENGTH = 40;
+
+// Options field for the games that ask the AI for content on a topic.
+export const themeField = (placeholder: string): TextField => ({
+  type: 'text',
+  key: 'theme',
+  label: 'Chủ đề',
+  maxLength: MAX_THEME_LENGTH,
+  placeholder,
+});
+
+// Reduces a user-typed theme to a short plain phrase, so it cannot close the quotes around it
+// in a prompt or smuggle markup and extra instructions in.
+export const sanitizeTheme = (text: string): string =>
+  text
+    .normalize('NFC')
+    .replace(/[\u0000-\u001f\u007f"'`<>{}[\]\\]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_THEME_LENGTH)
+    .trim();
+
+// --- Providers ---
+
+export interface ContentRequest {
+  key: string; // Identifies the kind of content, e.g. the game id; used to look up fixtures
+  prompt: string;
+  schema: Schema;
+  temperature?: number;
+  signal?: AbortSignal;
+}
+
+// Anything that can turn a prompt into JSON text: Gemini, a local stub, recorded fixtures...
+export interface ContentProvider {
+  name: string;
+  generateText: (request: ContentRequest) => Promise<string>;
+}
+
+const toAiError = (e: unknown): AiError => {
+  if (e instanceof AiError) return e;
+  const message = e instanceof Error ? e.message : String(e);
+  if (e instanceof Error && e.name === 'AbortError') return new AiCancelledError("Request cancelled.", e);
+  if (message.includes("429") || message.toUpperCase().includes("RESOURCE_EXHAUSTED")) {
+    return new AiQuotaError(message, e);
+  }
+  if (e instanceof TypeError || /\b5\d\d\b/.test(message) || /fetch|network/i.test(message)) {
+    return new AiNetworkError(message, e);
+  }
+  return new AiError(message, e);
+};
+
+export const createGeminiProvider = (apiKey: string, model = "gemini-2.5-flash"): ContentProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    name: `gemini:${model}`,
+    generateText: async ({ prompt, schema, temperature, signal }) => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: schema,
+          temperature,
+          abortSignal: signal,
+        },
+      });
+      return response.text ?? '';
+    },
+  };
+};
+
+// Answers every request from a handler, e.g. a generator written for local development.
+export const createStubProvider = (handler: (request: ContentRequest) => unknown): ContentProvider => ({
+  name: 'stub',
+  generateText: async request => JSON.stringify(await handler(request)),
+});
+
+// Replays recorded answers by request key. Several answers for one key are served in turn.
+export const createFixtureProvider = (fixtures: Record<string, unknown[]>): ContentProvider => {
+  const served: Record<string, number> = {};
+  return {
+    name: 'fixtures',
+    generateText: async ({ key }) => {
+      const answers = fixtures[key];
+      if (!answers || answers.length === 0) {
+        throw new AiNetworkError(`No fixture recorded for "${key}".`);
+      }
+      const index = served[key] ?? 0;
+      served[key] = index + 1;
+      return JSON.stringify(answers[index % answers.length]);
+    },
+  };
+};
+
+// Never reaches a server; games fall back to their bundled content.
+export const offlineProvider: ContentProvider = {
+  name: 'offline',
+  generateText: async () => {
+    throw new AiNetworkError("AI generation is turned off.");
+  },
+};
+
+// The app gets the key built in by Vite; the CLI reads GEMINI_API_KEY from the environment.
+const createDefaultProvider = (): ContentProvider => {
+  const apiKey = process.env.API_KEY ?? process.env.GEMINI_API_KEY;
+  if (process.env.AI_PROVIDER === 'offline' || !apiKey) return offlineProvider;
+  return createGeminiProvider(apiKey);
+};
+
+let currentProvider: ContentProvider | null = null;
+
+export const getContentProvider = (): ContentProvider => {
+  currentProvider ??= createDefaultProvider();
+  return currentProvider;
+};
+
+export const setContentProvider = (provider: ContentProvider) => {
+  currentProvider = provider;
+};
+
+// --- Service ---
+
+export interface GenerateJsonOptions<T> extends ContentRequest {
+  // Checks and repairs the parsed JSON; throws AiSchemaError when it cannot be repaired.
+  validate: (data: unknown) => Validated<T>;
+  timeoutMs?: number;
+  retries?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 60000;
+const DEFAULT_RETRIES = 2;
+const BASE_DELAY_MS = 1000;
+
+// A fresh answer may fix malformed or unrepairable content, so those are asked again too.
+const isRetryable = (e: AiError) =>
+  e instanceof AiQuotaError || e instanceof AiNetworkError || e instanceof AiTimeoutError ||
+  e instanceof AiInvalidJsonError || e instanceof AiSchemaError;
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new AiCancelledError("Request cancelled."));
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new AiCancelledError("Request cancelled."));
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// One attempt, cut short by the caller's signal or by the timeout.
+const requestOnce = async (provider: ContentProvider, request: ContentRequest, timeoutMs: number): Promise<string> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  request.signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    const aborted = new Promise<never>((_, reject) => {
+      controller.signal.addEventListener('abort', () => reject(
+        timedOut ? new AiTimeoutError(`No answer after ${timeoutMs / 1000}s.`) : new AiCancelledError("Request cancelled.")
+      ), { once: true });
+    });
+    return await Promise.race([provider.generateText({ ...request, signal: controller.signal }), aborted]);
+  } catch (e) {
+    if (timedOut) throw new AiTimeoutError(`No answer after ${timeoutMs / 1000}s.`, e);
+    if (request.signal?.aborted) throw new AiCancelledError("Request cancelled.", e);
+    throw toAiError(e);
+  } finally {
+    clearTimeout(timer);
+    request.signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text.trim());
+  } catch (e) {
+    throw new AiInvalidJsonError("The answer is not valid JSON.", e);
+  }
+};
+
+// Requests JSON content, retrying transient failures with exponential backoff.
+export const generateJson = async <T,>({
+  validate,
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+  retries = DEFAULT_RETRIES,
+  ...request
+}: GenerateJsonOptions<T>): Promise<T> => {
+  const provider = getContentProvider();
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const data = parseJson(await requestOnce(provider, request, timeoutMs));
+      let validated: Validated<T>;
+      try {
+        validated = validate(data);
+      } catch (e) {
+        throw e instanceof AiError ? e : new AiSchemaError(e instanceof Error ? e.message : String(e), e);
+      }
+      if (validated.repairs.length > 0) {
+        console.info(`[${request.key}] Corrected AI data:\n- ${validated.repairs.join('\n- ')}`);
+      }
+      return validated.value;
+    } catch (e) {
+      const error = toAiError(e);
+      // An offline provider will not come back by waiting
+      if (provider === offlineProvider || attempt >= retries || !isRetryable(error)) throw error;
+      const delay = BASE_DELAY_MS * 2 ** attempt * (1 + Math.random() * 0.25);
+      console.warn(`[${request.key}] ${error.name}, retrying in ${Math.round(delay)}ms.`);
+      await wait(delay, request.signal);
+    }
+  }
+};
+
+// Hands out one AbortSignal per request. Starting a new request cancels the previous one,
+// and unmounting cancels whatever is still running.
+export const useRequestSignal = () => {
+  const controllerRef = useRef<AbortController | null>(null);
+  useEffect(() => () => controllerRef.current?.abort(), []);
+  return useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = new AbortController();
+    return controllerRef.current.signal;
+  }, []);
+};
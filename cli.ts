@@ -0,0 +1,153 @@
+// Command line for producing worksheets without a browser, e.g. a month of mazes at once:
+//   kidgame generate --game calculation-path --count 30 --seed 42 --format pdf
+import { readFile, writeFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import { parseArgs } from 'node:util';
+import { DEFAULT_PAGE_SETUP, MAX_AGE, MAX_SEED, MIN_AGE, PAPER_SIZES, PageSetup, PaperSize, PuzzleGenerator, parseSeed, randomSeed } from './utils';
+import { getGenerator, getGenerators } from './generators';
+import { createBookletPdf, setFontLoader } from './pdf';
+import { createLibraryPuzzle, serializePuzzles } from './library';
+import { offlineProvider, setContentProvider } from './ai';
+import { GameOptions, parseOption, validateOption, validateOptions } from './options';
+
+const MAX_COUNT = 100;
+
+const USAGE = `Usage: kidgame generate --game <id> [options]
+
+Options:
+  --game <id>          Game to generate (see the list below)
+  --count <n>          Number of puzzles, 1-${MAX_COUNT} (default 1)
+  --seed <n>           Seed of the first puzzle; the next ones count up from it (default random)
+  --theme <text>       Theme for the games that use one, like --option theme=<text>
+  --option <key=value> Set one of the game's options, e.g. pairs=5 or operations=+,- (repeatable)
+  --age <n>            Age of the child, ${MIN_AGE}-${MAX_AGE}, for the level and the AI prompts
+  --level <n>          Difficulty level, from 1 (default: the level for --age, else the game's usual level)
+  --format <pdf|json>  A printable booklet, or a file for the puzzle library (default pdf)
+  --answers            Add answer keys at the back of the booklet
+  --paper <size>       ${Object.keys(PAPER_SIZES).join(', ')} (default ${DEFAULT_PAGE_SETUP.size})
+  --landscape          Print in landscape
+  --offline            Use the content packs instead of Gemini
+  --out <file>         Output file (default <game>-<seed>.<format>)
+
+Games:
+${getGenerators().map(({ info }) => `  ${info.id.padEnd(26)} ${info.name}`).join('\n')}`;
+
+class UsageError extends Error {}
+
+// The PDF fonts are looked up next to the source in the browser; here they come from the installed package.
+const require = createRequire(import.meta.url);
+const loadFontFile = async (url: URL) => {
+  const [, modulePath] = url.pathname.split('/node_modules/');
+  const file = await readFile(require.resolve(decodeURIComponent(modulePath)));
+  return file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength);
+};
+
+const parseNumber = (value: string | undefined, name: string, min: number, max: number, fallback: number) => {
+  if (value === undefined) return fallback;
+  const number = parseSeed(value);
+  if (number === null || number < min || number > max) throw new UsageError(`--${name} must be a whole number from ${min} to ${max}.`);
+  return number;
+};
+
+// Reads --option key=value pairs (and --theme) against the game's options panel fields.
+const parseOptions = (generator: PuzzleGenerator, pairs: string[], theme?: string): GameOptions => {
+  const { fields } = generator.optionsSchema;
+  const options: GameOptions = {};
+  const entries = theme === undefined ? pairs : [...pairs, `theme=${theme}`];
+  for (const pair of entries) {
+    const [key, ...rest] = pair.split('=');
+    const field = fields.find(f => f.key === key);
+    if (!field || rest.length === 0) {
+      const keys = fields.map(f => f.key).join(', ') || 'none';
+      throw new UsageError(`Unknown option "${pair}" for ${generator.info.id}; its options are: ${keys}.`);
+    }
+    const value = parseOption(field, rest.join('='));
+    const error = validateOption(field, value);
+    if (error) throw new UsageError(`--option ${key}: ${error}`);
+    options[key] = value;
+  }
+  return options;
+};
+
+const generate = async (args: string[]) => {
+  const { values } = parseArgs({
+    args,
+    options: {
+      game: { type: 'string' },
+      count: { type: 'string' },
+      seed: { type: 'string' },
+      theme: { type: 'string' },
+      option: { type: 'string', multiple: true, default: [] },
+      age: { type: 'string' },
+      level: { type: 'string' },
+      format: { type: 'string', default: 'pdf' },
+      answers: { type: 'boolean', default: false },
+      paper: { type: 'string', default: DEFAULT_PAGE_SETUP.size },
+      landscape: { type: 'boolean', default: false },
+      offline: { type: 'boolean', default: false },
+      out: { type: 'string' },
+    },
+  });
+
+  const generator = values.game && getGenerator(values.game);
+  if (!generator) throw new UsageError(values.game ? `Unknown game "${values.game}".` : 'Missing --game.');
+  if (values.format !== 'pdf' && values.format !== 'json') throw new UsageError('--format must be pdf or json.');
+  if (values.format === 'pdf' && generator.info.emojiPictures) {
+    throw new UsageError(`${generator.info.id} draws its pictures as emoji, which only the app can print. Use --format json and print from the puzzle library.`);
+  }
+  if (!(values.paper in PAPER_SIZES)) throw new UsageError(`Unknown paper size "${values.paper}".`);
+  const count = parseNumber(values.count, 'count', 1, MAX_COUNT, 1);
+  const firstSeed = parseNumber(values.seed, 'seed', 0, MAX_SEED, randomSeed());
+  const age = values.age === undefined ? undefined : parseNumber(values.age, 'age', MIN_AGE, MAX_AGE, MIN_AGE);
+  const { levels, defaultLevel } = generator.difficulty;
+  const level = parseNumber(values.level, 'level', 1, levels.length, age === undefined ? defaultLevel : generator.agePreset(age).level);
+  const options = parseOptions(generator, values.option, values.theme);
+  const [problem] = Object.entries(validateOptions(generator.optionsSchema, options, level, age));
+  if (problem) throw new UsageError(`--option ${problem[0]}: ${problem[1]}`);
+  const page: PageSetup = {
+    size: values.paper as PaperSize,
+    orientation: values.landscape ? 'landscape' : 'portrait',
+    scaleToFit: DEFAULT_PAGE_SETUP.scaleToFit,
+  };
+  if (values.offline) setContentProvider(offlineProvider);
+
+  const { info } = generator;
+  const seeds = Array.from({ length: count }, (_, i) => (firstSeed + i) % (MAX_SEED + 1));
+  const puzzles: { seed: number; puzzle: unknown }[] = [];
+  for (const seed of seeds) {
+    puzzles.push({ seed, puzzle: await generator.generate(seed, { level, age, options, page }) });
+    console.log(`${info.name} · Mã đề ${seed}`);
+  }
+
+  const out = values.out ?? `${info.id}-${firstSeed}.${values.format}`;
+  if (values.format === 'json') {
+    await writeFile(out, serializePuzzles(puzzles.map(({ seed, puzzle }) => createLibraryPuzzle(info.id, seed, puzzle))));
+  } else {
+    setFontLoader(loadFontFile);
+    const pdf = await createBookletPdf(puzzles.map(({ seed, puzzle }) => ({
+      title: `${info.name} · Mã đề ${seed}`,
+      rules: info.description,
+      worksheet: generator.getWorksheet(puzzle),
+      answerKey: values.answers ? generator.getWorksheet(puzzle, { answerKey: true }) : null,
+    })), { page });
+    await writeFile(out, new Uint8Array(pdf.output('arraybuffer')));
+  }
+  console.log(`Wrote ${count} puzzles to ${out}`);
+};
+
+const main = async ([command, ...args]: string[]) => {
+  try {
+    if (command !== 'generate') throw new UsageError(command ? `Unknown command "${command}".` : '');
+    await generate(args);
+  } catch (e) {
+    if (e instanceof UsageError || (e instanceof TypeError && 'code' in e)) {
+      if (e.message) console.error(`${e.message}\n`);
+      console.error(USAGE);
+    } else {
+      console.error(e instanceof Error ? e.message : e);
+    }
+    process.exitCode = 1;
+  }
+};
+
+main(process.argv.slice(2));
@@ -0,0 +1,179 @@
+import { Random, shuffleArray } from './utils';
+import { loadState, saveState } from './storage';
+import { AiCancelledError, GenerateJsonOptions, generateJson } from './ai';
+import { Validated, isNonEmptyString, isRecord } from './validation';
+
+import numberMatchShapes from './content/number-match-shapes.json';
+import numberMatchNature from './content/number-match-nature.json';
+import numberMatchParty from './content/number-match-party.json';
+import symbolMathAnimals from './content/symbol-math-animals.json';
+import symbolMathEveryday from './content/symbol-math-everyday.json';
+import characterFillFood from './content/character-fill-food.json';
+import characterFillWorld from './content/character-fill-world.json';
+import colorPuzzlePatterns from './content/color-puzzle-patterns.json';
+import colorPuzzlePictures from './content/color-puzzle-pictures.json';
+import coloringLetters from './content/coloring-letters.json';
+import coloringDigits from './content/coloring-digits.json';
+import coloringShapes from './content/coloring-shapes.json';
+import patternFindBasics from './content/pattern-find-basics.json';
+import patternFindAdvanced from './content/pattern-find-advanced.json';
+
+// Offline puzzles for the games that ask the AI for content. A pack is a JSON file for one game;
+// each entry holds data in the same shape as the AI's answer, so the game's own validator checks it.
+
+export const CONTENT_PACK_FORMAT = 'kidgame-content-pack';
+// Bump when the pack shape changes; packs written for a newer app are refused.
+export const CONTENT_PACK_VERSION = 1;
+
+export interface ContentEntry {
+  theme?: string;
+  data: unknown;
+}
+
+export interface ContentPack {
+  format: typeof CONTENT_PACK_FORMAT;
+  version: number;
+  id: string;
+  name: string;
+  game: string; // GameDefinition id
+  entries: ContentEntry[];
+}
+
+// An entry that passed its game's validator.
+export interface ContentItem<T> {
+  theme?: string;
+  value: T;
+}
+
+export class ContentPackError extends Error {
+  constructor(message: string, public readonly cause?: unknown) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+// Checks the envelope of a pack; the entries are checked by the game when they are drawn.
+export const parseContentPack = (data: unknown): ContentPack => {
+  if (!isRecord(data) || data.format !== CONTENT_PACK_FORMAT) {
+    throw new ContentPackError("Tệp không phải là gói nội dung.");
+  }
+  if (!Number.isInteger(data.version) || (data.version as number) < 1) {
+    throw new ContentPackError("Gói nội dung không có phiên bản hợp lệ.");
+  }
+  if ((data.version as number) > CONTENT_PACK_VERSION) {
+    throw new ContentPackError("Gói nội dung này cần phiên bản ứng dụng mới hơn.");
+  }
+  if (!isNonEmptyString(data.id) || !isNonEmptyString(data.name) || !isNonEmptyString(data.game)) {
+    throw new ContentPackError("Gói nội dung thiếu mã, tên hoặc trò chơi.");
+  }
+  const entries = Array.isArray(data.entries)
+    ? data.entries.filter(entry => isRecord(entry) && 'data' in entry).map(entry => ({
+        theme: isNonEmptyString(entry.theme) ? entry.theme.trim() : undefined,
+        data: entry.data,
+      }))
+    : [];
+  if (entries.length === 0) throw new ContentPackError("Gói nội dung không có bài nào.");
+
+  return { format: CONTENT_PACK_FORMAT, version: data.version as number, id: data.id.trim(), name: data.name.trim(), game: data.game.trim(), entries };
+};
+
+// --- Installed packs ---
+
+const bundledPacks: ContentPack[] = [
+  numberMatchShapes, numberMatchNature, numberMatchParty,
+  symbolMathAnimals, symbolMathEveryday,
+  characterFillFood, characterFillWorld,
+  colorPuzzlePatterns, colorPuzzlePictures,
+  coloringLetters, coloringDigits, coloringShapes,
+  patternFindBasics, patternFindAdvanced,
+].map(parseContentPack);
+
+const IMPORTED_KEY = 'content-packs';
+
+let importedPacks: ContentPack[] | null = null;
+
+// Packs saved by an older version of the app are dropped rather than breaking the games.
+const getImportedPacks = (): ContentPack[] => {
+  importedPacks ??= (loadState<unknown[]>(IMPORTED_KEY) ?? []).flatMap(pack => {
+    try {
+      return [parseContentPack(pack)];
+    } catch (e) {
+      console.warn("Ignoring a saved content pack.", e);
+      return [];
+    }
+  });
+  return importedPacks;
+};
+
+export const isBundledPack = (id: string) => bundledPacks.some(pack => pack.id === id);
+
+export const getContentPacks = (game?: string): ContentPack[] =>
+  [...bundledPacks, ...getImportedPacks()].filter(pack => !game || pack.game === game);
+
+export const readContentPack = async (file: File): Promise<ContentPack> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch (e) {
+    throw new ContentPackError("Tệp không phải là JSON hợp lệ.", e);
+  }
+  return parseContentPack(data);
+};
+
+// Adds a pack for later sessions; importing a pack with the same id again replaces it.
+export const installContentPack = (pack: ContentPack) => {
+  if (isBundledPack(pack.id)) throw new ContentPackError(`Gói "${pack.id}" trùng với một gói có sẵn.`);
+  importedPacks = [...getImportedPacks().filter(p => p.id !== pack.id), pack];
+  saveState(IMPORTED_KEY, importedPacks);
+};
+
+export const removeContentPack = (id: string) => {
+  importedPacks = getImportedPacks().filter(pack => pack.id !== id);
+  saveState(IMPORTED_KEY, importedPacks);
+};
+
+// --- Drawing content ---
+
+export const NO_CONTENT_MESSAGE = "Không có bài nào trong các gói nội dung.";
+
+const normalizeTheme = (theme?: string) => theme?.normalize('NFC').trim().toLowerCase() ?? '';
+
+// Draws up to `count` different entries for a game from every installed pack, in random order.
+// Entries of the requested theme come first; entries the validator rejects are skipped.
+export const drawContent = <T,>(
+  game: string,
+  validate: (data: unknown) => Validated<T>,
+  random: Random,
+  { count = 1, theme }: { count?: number; theme?: string } = {}
+): ContentItem<T>[] => {
+  const entries = shuffleArray(getContentPacks(game).flatMap(pack => pack.entries), random);
+  const wanted = normalizeTheme(theme);
+  const ordered = wanted
+    ? [...entries.filter(e => normalizeTheme(e.theme) === wanted), ...entries.filter(e => normalizeTheme(e.theme) !== wanted)]
+    : entries;
+
+  const items: ContentItem<T>[] = [];
+  for (const entry of ordered) {
+    if (items.length >= count) break;
+    try {
+      items.push({ theme: entry.theme, value: validate(entry.data).value });
+    } catch (e) {
+      console.warn(`[${game}] Skipping an invalid content pack entry.`, e);
+    }
+  }
+  return items;
+};
+
+// Asks the AI for a game's data and, on any failure but a cancel, draws a content pack entry
+// instead. The item carries the requested theme when the AI answered.
+export const generateContent = async <T,>(request: GenerateJsonOptions<T>, random: Random, theme?: string): Promise<ContentItem<T>> => {
+  try {
+    return { theme, value: await generateJson(request) };
+  } catch (e) {
+    if (e instanceof AiCancelledError) throw e;
+    console.warn(`[${request.key}] AI content unavailable (${e instanceof Error ? e.message : e}). Loading a content pack puzzle.`);
+    const [item] = drawContent(request.key, request.validate, random, { theme });
+    if (!item) throw new ContentPackError(NO_CONTENT_MESSAGE, e);
+    return item;
+  }
+};
@@ -0,0 +1,72 @@
+import type { DifficultyModel } from './utils';
+import type { GameRecord } from './progress';
+import { loadState, removeState, saveState } from './storage';
+
+// Chooses the level of a child's next puzzle from their last puzzles of the same game,
+// unless the teacher pinned a level for that child and game.
+
+// Results are judged over this many puzzles played in a row at the current level.
+export const RECENT_PUZZLES = 3;
+export const LEVEL_UP_SCORE = 90;
+export const LEVEL_DOWN_SCORE = 60;
+
+export const LEVEL_RULES = `Tự động lên mức khi bé đúng từ ${LEVEL_UP_SCORE}% trở lên và làm nhanh trong ${RECENT_PUZZLES} bài liền, xuống mức khi đúng dưới ${LEVEL_DOWN_SCORE}%.`;
+
+export interface LevelSuggestion {
+  level: number;
+  reason: string;
+}
+
+const clampLevel = (model: DifficultyModel, level: number) => Math.min(Math.max(level, 1), model.levels.length);
+
+const average = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+// Without results for the game, a child starts at startLevel, usually the preset for their age.
+export const suggestLevel = (model: DifficultyModel, history: GameRecord[], gameId: string, startLevel?: number): LevelSuggestion => {
+  const records = history.filter(r => r.gameId === gameId && r.difficulty !== null);
+  if (records.length === 0) {
+    return startLevel === undefined
+      ? { level: model.defaultLevel, reason: 'Bắt đầu ở mức thường của trò chơi.' }
+      : { level: clampLevel(model, startLevel), reason: 'Bắt đầu ở mức hợp với độ tuổi của bé.' };
+  }
+
+  const level = clampLevel(model, records[records.length - 1].difficulty!);
+  // Only the unbroken run of puzzles at this level counts, so a change of level is judged afresh
+  const run: GameRecord[] = [];
+  for (let i = records.length - 1; i >= 0 && records[i].difficulty === level && run.length < RECENT_PUZZLES; i--) {
+    run.push(records[i]);
+  }
+  if (run.length < RECENT_PUZZLES) {
+    return { level, reason: `Cần thêm ${RECENT_PUZZLES - run.length} bài ở mức này để đánh giá.` };
+  }
+
+  const score = Math.round(average(run.map(r => r.score)));
+  const secondsPerAnswer = average(run.map(r => r.durationMs / 1000 / Math.max(r.total, 1)));
+  const fast = secondsPerAnswer <= model.secondsPerAnswer;
+  if (score >= LEVEL_UP_SCORE && fast && level < model.levels.length) {
+    return { level: level + 1, reason: `Đúng ${score}% và làm nhanh trong ${RECENT_PUZZLES} bài gần nhất nên lên mức ${level + 1}.` };
+  }
+  if (score < LEVEL_DOWN_SCORE && level > 1) {
+    return { level: level - 1, reason: `Đúng ${score}% trong ${RECENT_PUZZLES} bài gần nhất nên xuống mức ${level - 1}.` };
+  }
+  if (score >= LEVEL_UP_SCORE && !fast) {
+    return { level, reason: `Đúng ${score}% nhưng còn chậm, giữ mức này.` };
+  }
+  return { level, reason: `Đúng ${score}% trong ${RECENT_PUZZLES} bài gần nhất, đang vừa sức.` };
+};
+
+// --- Teacher's choice ---
+// Pinned levels are kept per child; without a child picked they apply to everyone on this device.
+
+const pinsKey = (profileId: string | null) => `levels:${profileId ?? 'guest'}`;
+
+export const getPinnedLevel = (profileId: string | null, gameId: string): number | null =>
+  loadState<Record<string, number>>(pinsKey(profileId))?.[gameId] ?? null;
+
+// Pass null to go back to the automatic level.
+export const setPinnedLevel = (profileId: string | null, gameId: string, level: number | null) => {
+  const { [gameId]: _, ...pins } = loadState<Record<string, number>>(pinsKey(profileId)) ?? {};
+  saveState(pinsKey(profileId), level === null ? pins : { ...pins, [gameId]: level });
+};
+
+export const clearPinnedLevels = (profileId: string) => removeState(pinsKey(profileId));
@@ -0,0 +1,28 @@
+import type { PuzzleGenerator } from './utils';
+
+import { noiPhepTinhGenerator } from './Generators/NoiPhepTinh';
+import { noiSoGenerator } from './Generators/NoiSo';
+import { noiBongGenerator } from './Generators/NoiBong';
+import { meCungToanHocGenerator } from './Generators/MeCungToanHoc';
+import { maHoaPhepTinhGenerator } from './Generators/MaHoaPhepTinh';
+import { toMauManhGhepGenerator } from './Generators/ToMauManhGhep';
+import { dienKiTuGenerator } from './Generators/DienKiTu';
+import { toTracNghiemGenerator } from './Generators/ToTracNghiem';
+import { timHinhDungGenerator } from './Generators/TimHinhDung';
+
+// The puzzle logic of every game, free of React so it also runs in Node. Same order as the game registry.
+const generators: PuzzleGenerator[] = [
+  noiPhepTinhGenerator,
+  noiSoGenerator,
+  noiBongGenerator,
+  meCungToanHocGenerator,
+  maHoaPhepTinhGenerator,
+  toMauManhGhepGenerator,
+  dienKiTuGenerator,
+  toTracNghiemGenerator,
+  timHinhDungGenerator,
+];
+
+export const getGenerators = (): PuzzleGenerator[] => generators;
+
+export const getGenerator = (id: string): PuzzleGenerator | undefined => generators.find(g => g.info.id === id);
@@ -1,62 +1,227 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { createRoot } from 'react-dom/client';
-import type { GameComponentHandles } from './utils';
+import { AGES, CheckResult, DEFAULT_AGE, DEFAULT_PAGE_SETUP, GameComponentHandles, PAPER_SIZES, PageSetup, PaperSize, levelSettings, parseSeed, randomSeed } from './utils';
+import { getGames, getGame } from './registry';
+import { getGenerator } from './generators';
+import { loadState, saveGameState, saveState } from './storage';
+import { LibraryError, LibraryPuzzle, addPuzzle } from './library';
+import { ChildProfile, GameRecord, getHistory, getProfiles, recordCheck, saveProfile } from './progress';
+import { LEVEL_RULES, getPinnedLevel, setPinnedLevel, suggestLevel } from './difficulty';
+import { GameOptions, loadGameOptions, optionDefaults, saveGameOptions, validateOptions } from './options';
+import { ContentPackError, getContentPacks, installContentPack, isBundledPack, readContentPack, removeContentPack } from './content';
+import BookletBuilder from './BookletBuilder';
+import PuzzleLibrary from './PuzzleLibrary';
+import ProgressScreen from './ProgressScreen';
+import OptionsForm from './OptionsForm';
 
 // CSS Imports
 import './index.css';
 
-// Import the new game components
-import NoiPhepTinhGame from './Games/NoiPhepTinh';
-import NoiSoGame from './Games/NoiSo';
-import MeCungToanHocGame from './Games/MeCungToanHoc';
-import MaHoaPhepTinhGame from './Games/MaHoaPhepTinh';
-import ToMauManhGhepGame from './Games/ToMauManhGhep';
-import DienKiTuGame from './Games/DienKiTu';
-import ToTracNghiemGame from './Games/ToTracNghiem';
-import TimHinhDungGame from './Games/TimHinhDung'; 
+const DEFAULT_GAME_ID = 'number-match';
 
-type GameType = 'equation-match' | 'number-match' | 'calculation-path' | 'symbol-math' | 'color-puzzle' | 'character-fill' | 'multiple-choice-coloring' | 'pattern-find'; 
+// The seed of the puzzle each game last showed, so a restored game keeps its seed.
+const loadSeed = (gameId: string): number => loadState<number>(`seed:${gameId}`) ?? randomSeed();
+
+const loadGameId = (): string => {
+  const saved = loadState<string>('app:game');
+  return saved && getGame(saved) ? saved : DEFAULT_GAME_ID;
+};
+
+const loadProfileId = (): string | null => {
+  const saved = loadState<string>('app:profile');
+  return saved && getProfiles().some(p => p.id === saved) ? saved : null;
+};
+
+// Age used while no child is picked; a picked child's age comes from their profile.
+const loadAge = (): number => {
+  const saved = loadState<number>('app:age');
+  return saved !== null && AGES.includes(saved) ? saved : DEFAULT_AGE;
+};
+
+const loadPageSetup = (): PageSetup => {
+  const saved = loadState<Partial<PageSetup>>('app:page');
+  return saved && saved.size && saved.size in PAPER_SIZES ? { ...DEFAULT_PAGE_SETUP, ...saved } : DEFAULT_PAGE_SETUP;
+};
 
 // --- MAIN APP ---
 const App: React.FC = () => {
-  const [game, setGame] = useState<GameType>('number-match');
+  const games = getGames();
+  const [mode, setMode] = useState<'play' | 'booklet' | 'library' | 'progress'>('play');
+  const [gameId, setGameId] = useState<string>(loadGameId);
   const gameComponentRef = useRef<GameComponentHandles>(null);
+  const [seed, setSeed] = useState<number>(() => loadSeed(gameId));
+  const [seedInput, setSeedInput] = useState<string>(() => String(seed));
+  const [includeAnswerKey, setIncludeAnswerKey] = useState(false);
+  // Values set in the options panel; the rest follow the level and age
+  const [gameOptions, setGameOptions] = useState<GameOptions>(() => loadGameOptions(gameId));
+  const [checkResult, setCheckResult] = useState<CheckResult | null>(null);
+  const [libraryMessage, setLibraryMessage] = useState<string | null>(null);
+  const [exportMessage, setExportMessage] = useState<string | null>(null);
+  // Bumped to remount the game, e.g. after a library puzzle was put in its saved state
+  const [gameInstance, setGameInstance] = useState(0);
+  const [pageSetup, setPageSetup] = useState<PageSetup>(loadPageSetup);
+  const [contentPacks, setContentPacks] = useState(() => getContentPacks());
+  const [packMessage, setPackMessage] = useState<string | null>(null);
+  const packInputRef = useRef<HTMLInputElement>(null);
+  const [profiles, setProfiles] = useState<ChildProfile[]>(getProfiles);
+  const [profileId, setProfileId] = useState<string | null>(loadProfileId);
+  const [guestAge, setGuestAge] = useState<number>(loadAge);
+  // The puzzle on screen: when it appeared, its level and its record once checked
+  const attemptRef = useRef<{ startedAt: number; level?: number; record: GameRecord | null }>({ startedAt: Date.now(), record: null });
+  // Bumped when results or pinned levels change, to choose the level again
+  const [progressVersion, setProgressVersion] = useState(0);
+
+  const currentGame = getGame(gameId);
+  const GameComponent = currentGame?.component;
+  const typedSeed = parseSeed(seedInput);
+  const activeProfile = profiles.find(p => p.id === profileId) ?? null;
+  const age = activeProfile?.age ?? guestAge;
+  const generator = getGenerator(gameId);
+  const difficulty = generator?.difficulty;
+  const agePreset = generator?.agePreset(age);
+
+  const levelSuggestion = useMemo(
+    () => difficulty && suggestLevel(difficulty, activeProfile ? getHistory(activeProfile.id) : [], gameId, agePreset?.level),
+    [difficulty, activeProfile?.id, gameId, agePreset?.level, progressVersion]
+  );
+  const pinnedLevel = useMemo(() => getPinnedLevel(profileId, gameId), [profileId, gameId, progressVersion]);
+  const level = pinnedLevel ?? levelSuggestion?.level;
+  const optionFields = generator?.optionsSchema.fields ?? [];
+  const optionErrors = useMemo(
+    () => generator ? validateOptions(generator.optionsSchema, gameOptions, level, age) : {},
+    [generator, gameOptions, level, age]
+  );
+  const canGenerate = Object.keys(optionErrors).length === 0;
+
+  useEffect(() => {
+    saveState('app:game', gameId);
+    saveState(`seed:${gameId}`, seed);
+  }, [gameId, seed]);
+
+  useEffect(() => {
+    saveGameOptions(gameId, gameOptions);
+  }, [gameId, gameOptions]);
 
-  const games = [
-    { id: 'equation-match' as GameType, name: 'Nối phép tính', description: 'Nối phép tính ở cột bên trái với kết quả đúng ở cột bên phải.' },
-    { id: 'number-match' as GameType, name: 'Nối Số', description: 'Nối các ô chứa hình ảnh ở cột trái với ô chứa số lượng tương ứng ở cột phải.' },
-    { id: 'calculation-path' as GameType, name: 'Mê cung toán học', description: 'Bắt đầu từ ô "Bắt đầu", thực hiện các phép tính theo mũi tên để tìm đường đến ô "Kết thúc" và điền kết quả vào các ô trống.' },
-    { id: 'symbol-math' as GameType, name: 'Mã hóa phép tính', description: 'Dựa vào bảng quy đổi các biểu tượng thành số, hãy giải các phép tính bên dưới.' },
-    { id: 'color-puzzle' as GameType, name: 'Tô màu mảnh ghép', description: 'Quan sát hình mẫu ở trên và tô màu các mảnh ghép ở dưới sao cho giống hệt với hình mẫu.' },
-    { id: 'character-fill' as GameType, name: 'Điền kí tự', description: 'Dựa vào bảng quy đổi, điền ký tự tương ứng với mỗi hình vào ô trống bên dưới.' },
-    { id: 'multiple-choice-coloring' as GameType, name: 'Tô trắc nghiệm', description: 'Tô màu các ô tròn ở cột bên phải để tạo thành hình giống hệt với mẫu ở cột bên trái.' },
-    { id: 'pattern-find' as GameType, name: 'Tìm hình đúng', description: 'Tìm ra quy luật của các hình và chọn hình còn thiếu trong dấu "?" từ các lựa chọn bên dưới.' },
-  ];
-  
-  const currentGame = games.find(g => g.id === game);
-
-  const renderGame = () => {
-    switch(game) {
-      case 'equation-match':
-        return <NoiPhepTinhGame ref={gameComponentRef} />;
-      case 'number-match':
-        return <NoiSoGame ref={gameComponentRef} />;
-      case 'calculation-path':
-        return <MeCungToanHocGame ref={gameComponentRef} />;
-      case 'symbol-math':
-        return <MaHoaPhepTinhGame ref={gameComponentRef} />;
-      case 'color-puzzle':
-        return <ToMauManhGhepGame ref={gameComponentRef} />;
-      case 'character-fill':
-        return <DienKiTuGame ref={gameComponentRef} />;
-      case 'multiple-choice-coloring':
-        return <ToTracNghiemGame ref={gameComponentRef} />;
-      case 'pattern-find':
-        return <TimHinhDungGame ref={gameComponentRef} />;
-      default:
-        return null;
+  useEffect(() => {
+    saveState('app:page', pageSetup);
+  }, [pageSetup]);
+
+  useEffect(() => {
+    saveState('app:profile', profileId);
+  }, [profileId]);
+
+  useEffect(() => {
+    saveState('app:age', guestAge);
+  }, [guestAge]);
+
+  // With a child picked, the age is theirs and is saved to their profile.
+  const changeAge = (nextAge: number) => {
+    if (activeProfile) setProfiles(saveProfile({ ...activeProfile, age: nextAge }));
+    else setGuestAge(nextAge);
+  };
+
+  const updatePageSetup = (changes: Partial<PageSetup>) => setPageSetup(prev => ({ ...prev, ...changes }));
+
+  const generate = (nextSeed: number) => {
+    if (!canGenerate) return;
+    setSeed(nextSeed);
+    setSeedInput(String(nextSeed));
+    setCheckResult(null);
+    setLibraryMessage(null);
+    setExportMessage(null);
+    gameComponentRef.current?.generateNew(nextSeed);
+  };
+
+  const selectGame = (nextGameId: string) => {
+    const nextSeed = loadSeed(nextGameId);
+    setGameId(nextGameId);
+    setGameOptions(loadGameOptions(nextGameId));
+    setSeed(nextSeed);
+    setSeedInput(String(nextSeed));
+    setCheckResult(null);
+    setPackMessage(null);
+    setLibraryMessage(null);
+    setExportMessage(null);
+  };
+
+  const saveToLibrary = async () => {
+    const puzzle = gameComponentRef.current?.getPuzzle();
+    if (!puzzle) return;
+    try {
+      const entry = await addPuzzle(gameId, seed, puzzle);
+      setLibraryMessage(`Đã lưu "${entry.title}" vào thư viện.`);
+    } catch (e) {
+      console.error("Error saving to the library:", e);
+      setLibraryMessage(e instanceof LibraryError ? e.message : "Không lưu được bài này.");
     }
-  }
+  };
+
+  const exportPdf = async () => {
+    setExportMessage(null);
+    try {
+      await gameComponentRef.current?.exportPdf({ answerKey: includeAnswerKey, page: pageSetup });
+    } catch (e) {
+      console.error("Error exporting the PDF:", e);
+      setExportMessage("Không xuất được file PDF. Vui lòng thử lại.");
+    }
+  };
+
+  const openFromLibrary = (entry: LibraryPuzzle) => {
+    saveGameState(entry.gameId, entry.puzzle);
+    setGameId(entry.gameId);
+    setGameOptions(loadGameOptions(entry.gameId));
+    setSeed(entry.seed);
+    setSeedInput(String(entry.seed));
+    setCheckResult(null);
+    setPackMessage(null);
+    setLibraryMessage(null);
+    setExportMessage(null);
+    setGameInstance(n => n + 1);
+    setMode('play');
+  };
+
+  const importPack = async (file: File) => {
+    try {
+      const pack = await readContentPack(file);
+      const game = getGame(pack.game);
+      if (!game) throw new ContentPackError(`Không có trò chơi "${pack.game}".`);
+      installContentPack(pack);
+      setPackMessage(`Đã thêm gói "${pack.name}" (${pack.entries.length} bài) cho trò chơi ${game.name}.`);
+    } catch (e) {
+      setPackMessage(e instanceof ContentPackError ? e.message : "Không đọc được tệp.");
+    }
+    setContentPacks(getContentPacks());
+  };
+
+  const removePack = (id: string) => {
+    removeContentPack(id);
+    setContentPacks(getContentPacks());
+    setPackMessage(null);
+  };
+
+  const gamePacks = contentPacks.filter(pack => pack.game === gameId);
+
+  const startAttempt = () => {
+    attemptRef.current = { startedAt: Date.now(), level, record: null };
+  };
+
+  const pinLevel = (pinned: number | null) => {
+    setPinnedLevel(profileId, gameId, pinned);
+    setProgressVersion(n => n + 1);
+  };
+
+  const checkAnswers = () => {
+    const result = gameComponentRef.current?.checkAnswers();
+    if (!result) return;
+    setCheckResult(result);
+    if (activeProfile && result.total > 0) {
+      const { startedAt, level: puzzleLevel, record } = attemptRef.current;
+      // A record started under another child is left alone
+      const previous = record?.profileId === activeProfile.id ? record : null;
+      attemptRef.current.record = recordCheck(activeProfile.id, { gameId, seed, difficulty: puzzleLevel ?? null, startedAt }, result, previous);
+      setProgressVersion(n => n + 1);
+    }
+  };
 
   return (
     <div className="app-layout">
@@ -66,36 +231,195 @@ const App: React.FC = () => {
       
       <div className="main-container">
         <aside className="controls-panel">
+          <div className="mode-switch">
+            <button className={`mode-button ${mode === 'play' ? 'active' : ''}`} onClick={() => setMode('play')}>Chơi</button>
+            <button className={`mode-button ${mode === 'booklet' ? 'active' : ''}`} onClick={() => setMode('booklet')}>Tập bài tập</button>
+            <button className={`mode-button ${mode === 'library' ? 'active' : ''}`} onClick={() => setMode('library')}>Thư viện</button>
+            <button className={`mode-button ${mode === 'progress' ? 'active' : ''}`} onClick={() => setMode('progress')}>Tiến bộ</button>
+          </div>
+
           <div className="control-group">
-            <label htmlFor="game-select">Chọn trò chơi:</label>
-            <div className="select-wrapper">
-              <select 
-                id="game-select" 
-                value={game} 
-                onChange={e => setGame(e.target.value as GameType)}
-              >
-                {games.map(g => (
-                  <option key={g.id} value={g.id}>{g.name}</option>
-                ))}
-              </select>
-            </div>
+            <label htmlFor="profile-select">Bé đang chơi:</label>
+            <select id="profile-select" value={profileId ?? ''} onChange={e => setProfileId(e.target.value || null)}>
+              <option value="">Chưa chọn</option>
+              {profiles.map(p => <option key={p.id} value={p.id}>{p.avatar} {p.name}</option>)}
+            </select>
+            {profiles.length === 0 && <div className="seed-hint">Thêm hồ sơ ở thẻ "Tiến bộ" để ghi lại kết quả của bé.</div>}
           </div>
 
           <div className="control-group">
-            <label>Luật chơi:</label>
-            <div className="description-box">
-              {currentGame?.description || 'Chọn một trò chơi để xem luật chơi.'}
+            <label htmlFor="age-select">Độ tuổi:</label>
+            <select id="age-select" value={age} onChange={e => changeAge(Number(e.target.value))}>
+              {AGES.map(a => <option key={a} value={a}>{a} tuổi</option>)}
+            </select>
+            <div className="seed-hint">
+              {activeProfile ? `Theo hồ sơ của ${activeProfile.name}. ` : ''}Số lượng hình, cỡ hình và mức bắt đầu của mỗi trò chơi được chọn theo tuổi.
             </div>
           </div>
 
-          <div className="app-controls">
-            <button className="btn btn-generate" onClick={() => gameComponentRef.current?.generateNew()}>Tạo trò chơi mới</button>
-            <button className="btn btn-export" onClick={() => gameComponentRef.current?.exportPdf()}>Xuất file PDF</button>
+          {mode === 'play' && (
+            <>
+              <div className="control-group">
+                <label htmlFor="game-select">Chọn trò chơi:</label>
+                <div className="select-wrapper">
+                  <select 
+                    id="game-select" 
+                    value={gameId} 
+                    onChange={e => selectGame(e.target.value)}
+                  >
+                    {games.map(g => (
+                      <option key={g.id} value={g.id}>{g.icon} {g.name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="control-group">
+                <label>Luật chơi:</label>
+                <div className="description-box">
+                  {currentGame?.description || 'Chọn một trò chơi để xem luật chơi.'}
+                  {currentGame && (
+                    <div className="age-range">
+                      Độ tuổi: {currentGame.ageRange.min}–{currentGame.ageRange.max} tuổi
+                      {age < currentGame.ageRange.min && ` · có thể hơi khó với bé ${age} tuổi`}
+                      {age > currentGame.ageRange.max && ` · có thể hơi dễ với bé ${age} tuổi`}
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {difficulty && level !== undefined && (
+                <div className="control-group">
+                  <label htmlFor="level-select">Độ khó:</label>
+                  <select id="level-select" value={pinnedLevel ?? ''} onChange={e => pinLevel(e.target.value ? Number(e.target.value) : null)}>
+                    <option value="">Tự động (mức {levelSuggestion?.level})</option>
+                    {difficulty.levels.map((_, i) => <option key={i} value={i + 1}>Mức {i + 1}</option>)}
+                  </select>
+                  <ul className="level-rules">
+                    {difficulty.describe(levelSettings(difficulty, level)).map(rule => <li key={rule}>{rule}</li>)}
+                  </ul>
+                  <div className="seed-hint">
+                    {pinnedLevel !== null ? 'Mức do giáo viên chọn; bài mới dùng mức này.' : `${levelSuggestion?.reason} ${LEVEL_RULES}`}
+                  </div>
+                </div>
+              )}
+
+              {generator && optionFields.length > 0 && (
+                <div className="control-group">
+                  <label>Tùy chọn:</label>
+                  <OptionsForm
+                    fields={optionFields}
+                    values={gameOptions}
+                    defaults={optionDefaults(generator.optionsSchema, level, age)}
+                    errors={optionErrors}
+                    onChange={setGameOptions}
+                  />
+                  <div className="seed-hint">
+                    {canGenerate ? 'Bấm "Tạo trò chơi mới" để dùng các tùy chọn này.' : 'Sửa các tùy chọn chưa hợp lệ để tạo bài mới.'}
+                  </div>
+                </div>
+              )}
+
+              <div className="control-group">
+                <label htmlFor="seed-input">Mã đề:</label>
+                <div className="seed-row">
+                  <input
+                    id="seed-input"
+                    type="text"
+                    inputMode="numeric"
+                    className={`seed-input ${typedSeed === null ? 'invalid' : ''}`}
+                    value={seedInput}
+                    onChange={e => setSeedInput(e.target.value)}
+                    onKeyDown={e => { if (e.key === 'Enter' && typedSeed !== null) generate(typedSeed); }}
+                    aria-label="Puzzle seed"
+                  />
+                  <button className="btn btn-seed" disabled={typedSeed === null || !canGenerate} onClick={() => typedSeed !== null && generate(typedSeed)}>Tạo lại</button>
+                </div>
+                <div className="seed-hint">Nhập lại mã đề để tạo đúng bài tập cũ. Đề đang hiển thị: {seed}</div>
+              </div>
+
+              {gamePacks.length > 0 && (
+                <div className="control-group">
+                  <label>Gói nội dung ngoại tuyến:</label>
+                  <ul className="pack-list">
+                    {gamePacks.map(pack => (
+                      <li key={pack.id}>
+                        <span>{pack.name} · {pack.entries.length} bài</span>
+                        {!isBundledPack(pack.id) && <button className="pack-remove" onClick={() => removePack(pack.id)}>Xóa</button>}
+                      </li>
+                    ))}
+                  </ul>
+                  <button className="btn btn-seed" onClick={() => packInputRef.current?.click()}>Nhập gói từ tệp</button>
+                  <input
+                    ref={packInputRef}
+                    type="file"
+                    accept=".json,application/json"
+                    hidden
+                    onChange={e => {
+                      const file = e.target.files?.[0];
+                      e.target.value = ''; // Lets the same file be picked again
+                      if (file) importPack(file);
+                    }}
+                  />
+                  <div className="seed-hint">{packMessage ?? 'Dùng khi không có AI hoặc AI gặp lỗi.'}</div>
+                </div>
+              )}
+
+              <label className="checkbox-row">
+                <input type="checkbox" checked={includeAnswerKey} onChange={e => setIncludeAnswerKey(e.target.checked)} />
+                Kèm trang đáp án khi xuất PDF
+              </label>
+
+              <div className="app-controls">
+                <button className="btn btn-generate" disabled={!canGenerate} onClick={() => generate(randomSeed())}>Tạo trò chơi mới</button>
+                <button className="btn btn-check" onClick={checkAnswers}>Kiểm tra</button>
+                <button className="btn btn-export" onClick={exportPdf}>Xuất file PDF</button>
+                <button className="btn btn-library" onClick={saveToLibrary}>Lưu vào thư viện</button>
+              </div>
+              {libraryMessage && <div className="seed-hint">{libraryMessage}</div>}
+              {exportMessage && <div className="seed-hint">{exportMessage}</div>}
+
+              {checkResult && (
+                <div className={`check-result ${checkResult.correct === checkResult.total ? 'perfect' : ''}`}>
+                  Đúng {checkResult.correct}/{checkResult.total} · {checkResult.score} điểm
+                </div>
+              )}
+            </>
+          )}
+
+          <div className="control-group">
+            <label htmlFor="paper-select">Khổ giấy:</label>
+            <div className="paper-row">
+              <select id="paper-select" value={pageSetup.size} onChange={e => updatePageSetup({ size: e.target.value as PaperSize })}>
+                {(Object.keys(PAPER_SIZES) as PaperSize[]).map(size => (
+                  <option key={size} value={size}>{PAPER_SIZES[size]}</option>
+                ))}
+              </select>
+              <select
+                value={pageSetup.orientation}
+                onChange={e => updatePageSetup({ orientation: e.target.value as PageSetup['orientation'] })}
+                aria-label="Paper orientation"
+              >
+                <option value="portrait">Khổ dọc</option>
+                <option value="landscape">Khổ ngang</option>
+              </select>
+            </div>
+            <label className="checkbox-row">
+              <input type="checkbox" checked={pageSetup.scaleToFit} onChange={e => updatePageSetup({ scaleToFit: e.target.checked })} />
+              Thu nhỏ mỗi bài vừa một trang
+            </label>
           </div>
         </aside>
 
-        <main className="content-area">
-          {renderGame()}
+        <main className="content-area" style={mode === 'play' ? { '--picture-scale': agePreset?.pictureScale ?? 1 } as React.CSSProperties : undefined}>
+          {mode === 'booklet' && <BookletBuilder pageSetup={pageSetup} age={age} />}
+          {mode === 'library' && <PuzzleLibrary onOpen={openFromLibrary} />}
+          {mode === 'progress' && (
+            <ProgressScreen profiles={profiles} activeProfile={activeProfile} onProfilesChange={setProfiles} onSelect={setProfileId} />
+          )}
+          {mode === 'play' && GameComponent && (
+            <GameComponent key={`${gameId}:${gameInstance}`} ref={gameComponentRef} seed={seed} storageKey={gameId} level={level} age={age} options={gameOptions} page={pageSetup} onReady={startAttempt} />
+          )}
         </main>
       </div>
     </div>
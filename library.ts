@@ -0,0 +1,193 @@
+import type { AgeRange } from './utils';
+import { createId } from './utils';
+import { getGenerator } from './generators';
+import { isNonEmptyString, isRecord } from './validation';
+
+// Puzzles a teacher chose to keep, stored in IndexedDB so large SVG puzzles do not fill up localStorage.
+// A puzzle is what the game's generator produced, without the child's answers (see GameComponentHandles.getPuzzle).
+
+export interface LibraryPuzzle {
+  id: string;
+  gameId: string;
+  seed: number;
+  title: string;
+  themes: string[];
+  ages: AgeRange;
+  favourite: boolean;
+  createdAt: number; // ms since epoch
+  puzzle: unknown;
+}
+
+export class LibraryError extends Error {
+  constructor(message: string, public readonly cause?: unknown) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+// --- Database ---
+
+const DB_NAME = 'kidgame-library';
+const DB_VERSION = 1;
+const STORE = 'puzzles';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(new LibraryError("Không mở được thư viện bài tập.", request.error));
+  }).catch(e => {
+    dbPromise = null; // Let a later call try again, e.g. after the user allows storage
+    throw e;
+  });
+  return dbPromise;
+};
+
+// Runs one request in its own transaction and resolves once the transaction is committed.
+const run = async <T,>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = action(transaction.objectStore(STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(new LibraryError("Không lưu được thư viện bài tập.", transaction.error));
+    transaction.onabort = () => reject(new LibraryError("Không lưu được thư viện bài tập.", transaction.error));
+  });
+};
+
+export const listPuzzles = () => run<LibraryPuzzle[]>('readonly', store => store.getAll());
+
+export const putPuzzle = async (puzzle: LibraryPuzzle) => {
+  await run('readwrite', store => store.put(puzzle));
+};
+
+export const deletePuzzle = async (id: string) => {
+  await run('readwrite', store => store.delete(id));
+};
+
+const gameInfo = (gameId: string) => getGenerator(gameId)?.info;
+
+// A new entry titled after the game; a `theme` in the puzzle becomes the first theme tag.
+export const createLibraryPuzzle = (gameId: string, seed: number, puzzle: unknown): LibraryPuzzle => {
+  const game = gameInfo(gameId);
+  if (!game) throw new LibraryError(`Không có trò chơi "${gameId}".`);
+  const theme = isRecord(puzzle) && isNonEmptyString(puzzle.theme) ? puzzle.theme.trim() : null;
+  return {
+    id: createId(),
+    gameId,
+    seed,
+    title: theme ? `${game.name} · ${theme}` : `${game.name} · Mã đề ${seed}`,
+    themes: theme ? [theme] : [],
+    ages: { ...game.ageRange },
+    favourite: false,
+    createdAt: Date.now(),
+    puzzle,
+  };
+};
+
+// Adds the puzzle on screen.
+export const addPuzzle = async (gameId: string, seed: number, puzzle: unknown): Promise<LibraryPuzzle> => {
+  const entry = createLibraryPuzzle(gameId, seed, puzzle);
+  await putPuzzle(entry);
+  return entry;
+};
+
+// --- Search ---
+
+export interface LibraryQuery {
+  text?: string;
+  gameId?: string;
+  age?: number;
+  favouritesOnly?: boolean;
+}
+
+const normalize = (text: string) => text.normalize('NFC').trim().toLowerCase();
+
+// Matches every word of the text against the title, themes and game name; favourites first, then newest.
+export const searchPuzzles = (puzzles: LibraryPuzzle[], { text = '', gameId, age, favouritesOnly }: LibraryQuery): LibraryPuzzle[] => {
+  const words = normalize(text).split(/\s+/).filter(Boolean);
+  return puzzles
+    .filter(p => !gameId || p.gameId === gameId)
+    .filter(p => !favouritesOnly || p.favourite)
+    .filter(p => age === undefined || (p.ages.min <= age && age <= p.ages.max))
+    .filter(p => {
+      const haystack = normalize([p.title, ...p.themes, gameInfo(p.gameId)?.name ?? ''].join(' '));
+      return words.every(word => haystack.includes(word));
+    })
+    .sort((a, b) => Number(b.favourite) - Number(a.favourite) || b.createdAt - a.createdAt);
+};
+
+// --- Files ---
+
+const LIBRARY_FORMAT = 'kidgame-library';
+// Bump when the file shape changes; files written by a newer app are refused.
+const LIBRARY_VERSION = 1;
+
+interface LibraryFile {
+  format: typeof LIBRARY_FORMAT;
+  version: number;
+  puzzles: LibraryPuzzle[];
+}
+
+// The text of an exported library file, as also written by the command line.
+export const serializePuzzles = (puzzles: LibraryPuzzle[]): string => {
+  const file: LibraryFile = { format: LIBRARY_FORMAT, version: LIBRARY_VERSION, puzzles };
+  return JSON.stringify(file, null, 2);
+};
+
+export const exportPuzzles = (puzzles: LibraryPuzzle[], fileName = 'thu-vien-bai-tap.json') => {
+  const url = URL.createObjectURL(new Blob([serializePuzzles(puzzles)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const isAgeRange = (value: unknown): value is AgeRange =>
+  isRecord(value) && Number.isInteger(value.min) && Number.isInteger(value.max) && (value.min as number) <= (value.max as number);
+
+// Puzzles for games this app does not have, or that fail their game's check, are left out. The ones
+// kept are the game's cleaned copy, with their drawings sanitized.
+const parsePuzzle = (value: unknown): LibraryPuzzle | null => {
+  if (!isRecord(value) || !isNonEmptyString(value.gameId)) return null;
+  const generator = getGenerator(value.gameId);
+  const puzzle = generator?.validatePuzzle(value.puzzle);
+  if (!generator || !puzzle) return null;
+  const game = generator.info;
+  return {
+    id: isNonEmptyString(value.id) ? value.id : createId(),
+    gameId: value.gameId,
+    seed: Number.isInteger(value.seed) ? value.seed as number : 0,
+    title: isNonEmptyString(value.title) ? value.title.trim() : game.name,
+    themes: Array.isArray(value.themes) ? value.themes.filter(isNonEmptyString).map(t => t.trim()) : [],
+    ages: isAgeRange(value.ages) ? { min: value.ages.min, max: value.ages.max } : { ...game.ageRange },
+    favourite: value.favourite === true,
+    createdAt: typeof value.createdAt === 'number' ? value.createdAt : Date.now(),
+    puzzle,
+  };
+};
+
+// Adds the puzzles of an exported file; puzzles already in the library (same id) are replaced.
+export const importPuzzles = async (file: File): Promise<{ imported: number; skipped: number }> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch (e) {
+    throw new LibraryError("Tệp không phải là JSON hợp lệ.", e);
+  }
+  if (!isRecord(data) || data.format !== LIBRARY_FORMAT || !Array.isArray(data.puzzles)) {
+    throw new LibraryError("Tệp không phải là thư viện bài tập.");
+  }
+  if (!Number.isInteger(data.version) || (data.version as number) > LIBRARY_VERSION) {
+    throw new LibraryError("Tệp này cần phiên bản ứng dụng mới hơn.");
+  }
+  const puzzles = data.puzzles.map(parsePuzzle).filter((p): p is LibraryPuzzle => p !== null);
+  for (const puzzle of puzzles) await putPuzzle(puzzle);
+  return { imported: puzzles.length, skipped: data.puzzles.length - puzzles.length };
+};
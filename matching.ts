@@ -0,0 +1,202 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { Point } from './pdf';
+import type { ItemResult, Skill } from './utils';
+
+// Connecting the two columns of the matching games. A child drags from a card or its dot to an item
+// in the other column (or taps one, then the other); a live line follows the finger and snaps to the
+// nearest item, pairs the game refuses shake, and tapping a line removes it.
+
+const TAP_DISTANCE = 8; // Pointer movement in px below which a press counts as a tap
+const SNAP_DISTANCE = 40; // A dragged line snaps to an item whose anchor is this close
+const LINE_HIT_DISTANCE = 12; // A tap this close to a line removes it
+const REJECT_MS = 600; // Matches the shake animation in the styles
+
+// A line between a left item and a right item, by id
+export type Connection = [leftId: string, rightId: string];
+
+export interface ConnectDragOptions {
+  containerRef: React.RefObject<HTMLElement | null>;
+  connections: Connection[];
+  isLeft: (id: string) => boolean;
+  // Where lines to the item start and end, relative to the container
+  anchorOf: (id: string) => Point | null;
+  canConnect: (leftId: string, rightId: string) => boolean;
+  onConnect: (leftId: string, rightId: string) => void;
+  onRefuse?: (leftId: string, rightId: string) => void; // A pair canConnect turned down, after it shakes
+  onDisconnect: (connection: Connection) => void;
+}
+
+interface Drag {
+  from: string;
+  start: Point;
+  pointer: Point;
+  target: string | null; // Item of the other column the line snaps to
+  moved: boolean;
+}
+
+// The point on a card or dot that lines attach to, relative to the container.
+export const anchorPoint = (el: Element, container: Element, side: 'left' | 'right' | 'center' = 'center'): Point => {
+  const rect = el.getBoundingClientRect();
+  const origin = container.getBoundingClientRect();
+  const x = side === 'left' ? rect.left : side === 'right' ? rect.right : rect.left + rect.width / 2;
+  return { x: x - origin.left, y: rect.top + rect.height / 2 - origin.top };
+};
+
+const distanceToSegment = (p: Point, a: Point, b: Point) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+export const useConnectDrag = (options: ConnectDragOptions) => {
+  // The window listeners of a drag outlive renders, so they read the latest options and state from refs
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const [drag, setDragState] = useState<Drag | null>(null);
+  const dragRef = useRef<Drag | null>(null);
+  const [selected, setSelectedState] = useState<string | null>(null);
+  const selectedRef = useRef<string | null>(null);
+  const [rejected, setRejected] = useState<string[]>([]);
+  const rejectTimer = useRef<number | undefined>(undefined);
+
+  const setDrag = (next: Drag | null) => {
+    dragRef.current = next;
+    setDragState(next);
+  };
+  const setSelected = (id: string | null) => {
+    selectedRef.current = id;
+    setSelectedState(id);
+  };
+
+  const toLocal = (e: { clientX: number; clientY: number }): Point | null => {
+    const rect = optionsRef.current.containerRef.current?.getBoundingClientRect();
+    return rect ? { x: e.clientX - rect.left, y: e.clientY - rect.top } : null;
+  };
+
+  const findTarget = (from: string, e: PointerEvent, pointer: Point): string | null => {
+    const { isLeft, anchorOf, containerRef } = optionsRef.current;
+    const under = document.elementFromPoint(e.clientX, e.clientY)?.closest<HTMLElement>('[data-connect-id]')?.dataset.connectId;
+    if (under && isLeft(under) !== isLeft(from)) return under;
+    let nearest: string | null = null;
+    let nearestDistance = SNAP_DISTANCE;
+    containerRef.current?.querySelectorAll<HTMLElement>('[data-connect-id]').forEach(el => {
+      const id = el.dataset.connectId!;
+      const anchor = isLeft(id) !== isLeft(from) ? anchorOf(id) : null;
+      const distance = anchor ? Math.hypot(anchor.x - pointer.x, anchor.y - pointer.y) : Infinity;
+      if (distance < nearestDistance) {
+        nearest = id;
+        nearestDistance = distance;
+      }
+    });
+    return nearest;
+  };
+
+  const attempt = (a: string, b: string) => {
+    const { isLeft, canConnect, onConnect, onRefuse } = optionsRef.current;
+    const [leftId, rightId] = isLeft(a) ? [a, b] : [b, a];
+    if (canConnect(leftId, rightId)) {
+      onConnect(leftId, rightId);
+      return;
+    }
+    window.clearTimeout(rejectTimer.current);
+    setRejected([leftId, rightId]);
+    rejectTimer.current = window.setTimeout(() => setRejected([]), REJECT_MS);
+    onRefuse?.(leftId, rightId);
+  };
+
+  useEffect(() => () => window.clearTimeout(rejectTimer.current), []);
+
+  const isDragging = drag !== null;
+  useEffect(() => {
+    if (!isDragging) return;
+    const move = (e: PointerEvent) => {
+      const current = dragRef.current;
+      const pointer = toLocal(e);
+      if (!current || !pointer) return;
+      const moved = current.moved || Math.hypot(pointer.x - current.start.x, pointer.y - current.start.y) > TAP_DISTANCE;
+      setDrag({ ...current, pointer, moved, target: moved ? findTarget(current.from, e, pointer) : null });
+    };
+    const end = () => {
+      const current = dragRef.current;
+      setDrag(null);
+      if (!current) return;
+      const { isLeft } = optionsRef.current;
+      const previous = selectedRef.current;
+      if (current.moved) {
+        setSelected(null);
+        if (current.target) attempt(current.from, current.target);
+      } else if (previous && isLeft(previous) !== isLeft(current.from)) {
+        setSelected(null);
+        attempt(previous, current.from);
+      } else {
+        setSelected(previous === current.from ? null : current.from);
+      }
+    };
+    const cancel = () => setDrag(null);
+    window.addEventListener('pointermove', move);
+    window.addEventListener('pointerup', end);
+    window.addEventListener('pointercancel', cancel);
+    return () => {
+      window.removeEventListener('pointermove', move);
+      window.removeEventListener('pointerup', end);
+      window.removeEventListener('pointercancel', cancel);
+    };
+  }, [isDragging]);
+
+  const startDrag = (id: string) => (e: React.PointerEvent) => {
+    if (e.button !== 0) return;
+    const start = toLocal(e);
+    if (!start) return;
+    e.preventDefault(); // Keeps the page from selecting text or scrolling while dragging
+    setDrag({ from: id, start, pointer: start, target: null, moved: false });
+  };
+
+  const removeLineAt = (e: React.PointerEvent) => {
+    if ((e.target as Element).closest('[data-connect-id]')) return;
+    const point = toLocal(e);
+    if (!point) return;
+    const { connections, anchorOf, onDisconnect } = optionsRef.current;
+    const hit = connections.find(([leftId, rightId]) => {
+      const a = anchorOf(leftId);
+      const b = anchorOf(rightId);
+      return a && b && distanceToSegment(point, a, b) <= LINE_HIT_DISTANCE;
+    });
+    if (hit) onDisconnect(hit);
+    setSelected(null);
+  };
+
+  const dragStart = drag?.moved ? options.anchorOf(drag.from) : null;
+  const dragEnd = drag?.target ? options.anchorOf(drag.target) : drag?.pointer;
+
+  return {
+    // Spread on every card and dot that can start or end a line
+    itemProps: (id: string) => ({ 'data-connect-id': id, onPointerDown: startDrag(id) }),
+    // Spread on the container, for taps on lines
+    containerProps: { onPointerDown: removeLineAt },
+    // The line following the pointer, while dragging
+    preview: dragStart && dragEnd ? [dragStart, dragEnd] as [Point, Point] : null,
+    isSelected: (id: string) => selected === id || drag?.from === id,
+    isTarget: (id: string) => drag?.target === id,
+    isRejected: (id: string) => rejected.includes(id),
+  };
+};
+
+// Ids of the items at the other end of an item's lines.
+export const connectedTo = (connections: Connection[], id: string): string[] =>
+  connections.flatMap(([leftId, rightId]) => leftId === id ? [rightId] : rightId === id ? [leftId] : []);
+
+// Results of a game that only lets pairs that go together be joined, so a wrong answer never stays on
+// the board: a left item is right once it has a line and no pair with it was refused (`refused` holds
+// the left ids of refused pairs).
+export const checkMatches = (leftIds: string[], connections: Connection[], refused: string[], skill: Skill): ItemResult[] =>
+  leftIds.map(id => ({ id, correct: connectedTo(connections, id).length > 0 && !refused.includes(id), skill }));
+
+// Saved games from before N-to-N matching kept one line per left item, as a record.
+export const readConnections = (saved: Connection[] | Record<string, string> | undefined): Connection[] =>
+  Array.isArray(saved) ? saved : Object.entries(saved ?? {});
+
+// Left ids of refused pairs from a saved game; none for games saved before they were kept.
+export const readRefused = (saved: unknown): string[] =>
+  Array.isArray(saved) ? saved.filter((id): id is string => typeof id === 'string') : [];
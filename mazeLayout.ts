@@ -0,0 +1,144 @@
+import { Random, getRandomInt, shuffleArray } from './utils';
+
+// Where the boxes of the math maze go. Boxes sit on a grid and arrows only join neighbouring
+// cells, so no two arrows can cross. Paths are laid out in one of a few styles.
+
+export type PathStyle = 'snake' | 'spiral' | 'random';
+
+export interface Cell {
+  col: number;
+  row: number;
+}
+
+export interface MazeGrid {
+  columns: number;
+  rows: number;
+}
+
+export const CELL_WIDTH = 150;
+export const CELL_HEIGHT = 100;
+export const GRID_MARGIN = 20;
+const MIN_GRID_SIDE = 3;
+const MAX_GRID_SIDE = 12;
+const MAX_WALK_STEPS = 20000; // Backtracking budget for a random path
+
+export const cellKey = ({ col, row }: Cell) => `${col},${row}`;
+
+export const neighbours = ({ col, row }: Cell, { columns, rows }: MazeGrid): Cell[] =>
+  [{ col: col + 1, row }, { col: col - 1, row }, { col, row: row + 1 }, { col, row: row - 1 }]
+    .filter(c => c.col >= 0 && c.col < columns && c.row >= 0 && c.row < rows);
+
+export const isNeighbour = (a: Cell, b: Cell) => Math.abs(a.col - b.col) + Math.abs(a.row - b.row) === 1;
+
+export const cellPosition = ({ col, row }: Cell) => ({ x: GRID_MARGIN + col * CELL_WIDTH, y: GRID_MARGIN + row * CELL_HEIGHT });
+
+// The grid with room for `cells` boxes whose sheet prints largest in the area, given the size of
+// the sheet for a grid. Columns and rows set by the teacher are kept; the rows grow if too few.
+export const fitGrid = (
+  cells: number,
+  area: { width: number; height: number },
+  sheetSize: (grid: MazeGrid) => { width: number; height: number },
+  fixed: Partial<MazeGrid> = {},
+): MazeGrid => {
+  const candidates: MazeGrid[] = [];
+  for (let columns = MIN_GRID_SIDE; columns <= MAX_GRID_SIDE; columns++) {
+    if (fixed.columns && columns !== fixed.columns) continue;
+    const rows = Math.max(fixed.rows ?? 0, MIN_GRID_SIDE, Math.ceil(cells / columns));
+    candidates.push({ columns, rows });
+  }
+  const keepingRows = candidates.filter(grid => grid.rows === fixed.rows);
+  if (keepingRows.length > 0) candidates.splice(0, candidates.length, ...keepingRows);
+  if (candidates.length === 0) {
+    const columns = fixed.columns!;
+    return { columns, rows: Math.max(fixed.rows ?? 0, MIN_GRID_SIDE, Math.ceil(cells / columns)) };
+  }
+  const printScale = (grid: MazeGrid) => {
+    const sheet = sheetSize(grid);
+    return Math.min(area.width / sheet.width, area.height / sheet.height);
+  };
+  return candidates.reduce((best, grid) => printScale(grid) > printScale(best) ? grid : best);
+};
+
+// Mirrors an order of cells so it can start from any corner.
+const mirror = (cells: Cell[], { columns, rows }: MazeGrid, random: Random): Cell[] => {
+  const flipCols = random() > 0.5;
+  const flipRows = random() > 0.5;
+  return cells.map(({ col, row }) => ({ col: flipCols ? columns - 1 - col : col, row: flipRows ? rows - 1 - row : row }));
+};
+
+// Back and forth across a band of the grid, turning more often the narrower the band.
+const snakePath = (grid: MazeGrid, length: number, turns: number, random: Random): Cell[] => {
+  const byRows = random() > 0.5;
+  const [across, along] = byRows ? [grid.columns, grid.rows] : [grid.rows, grid.columns];
+  const wanted = Math.round(across * (1 - turns / 100));
+  const band = Math.min(across, Math.max(2, wanted, Math.ceil(length / along)));
+  const cells: Cell[] = [];
+  for (let line = 0; line < along; line++) {
+    for (let step = 0; step < band; step++) {
+      const i = line % 2 === 0 ? step : band - 1 - step;
+      cells.push(byRows ? { col: i, row: line } : { col: line, row: i });
+    }
+  }
+  return mirror(cells, grid, random);
+};
+
+// Round the edge of the grid and inwards, or from the middle outwards.
+const spiralPath = (grid: MazeGrid, random: Random): Cell[] => {
+  const cells: Cell[] = [];
+  let [left, top, right, bottom] = [0, 0, grid.columns - 1, grid.rows - 1];
+  while (left <= right && top <= bottom) {
+    for (let col = left; col <= right; col++) cells.push({ col, row: top });
+    for (let row = top + 1; row <= bottom; row++) cells.push({ col: right, row });
+    if (top < bottom) for (let col = right - 1; col >= left; col--) cells.push({ col, row: bottom });
+    if (left < right) for (let row = bottom - 1; row > top; row--) cells.push({ col: left, row });
+    [left, top, right, bottom] = [left + 1, top + 1, right - 1, bottom - 1];
+  }
+  return mirror(random() > 0.5 ? cells.reverse() : cells, grid, random);
+};
+
+// A walk that never crosses itself, going straight on or turning at each step by `turns` percent.
+const randomPath = (grid: MazeGrid, length: number, turns: number, random: Random): Cell[] | null => {
+  const start = { col: getRandomInt(0, grid.columns - 1, random), row: getRandomInt(0, grid.rows - 1, random) };
+  const path = [start];
+  const used = new Set([cellKey(start)]);
+  let steps = 0;
+  const extend = (): boolean => {
+    if (path.length === length) return true;
+    if (++steps > MAX_WALK_STEPS) return false;
+    const current = path[path.length - 1];
+    const previous = path[path.length - 2];
+    const options = shuffleArray(neighbours(current, grid).filter(c => !used.has(cellKey(c))), random);
+    const straight = previous && options.find(c => c.col - current.col === current.col - previous.col && c.row - current.row === current.row - previous.row);
+    const turn = random() * 100 < turns;
+    if (straight) {
+      options.splice(options.indexOf(straight), 1);
+      if (turn) options.push(straight);
+      else options.unshift(straight);
+    }
+    for (const next of options) {
+      path.push(next);
+      used.add(cellKey(next));
+      if (extend()) return true;
+      path.pop();
+      used.delete(cellKey(next));
+    }
+    return false;
+  };
+  return extend() ? path : null;
+};
+
+// Cells for a path of `length` boxes, each next to the one before; null when the grid has no room.
+export const layoutPath = (grid: MazeGrid, length: number, style: PathStyle, turns: number, random: Random): Cell[] | null => {
+  if (length > grid.columns * grid.rows) return null;
+  const cells = style === 'snake' ? snakePath(grid, length, turns, random)
+    : style === 'spiral' ? spiralPath(grid, random)
+    : randomPath(grid, length, turns, random);
+  return cells && cells.length >= length ? cells.slice(0, length) : null;
+};
+
+// Moves the cells so the topmost and leftmost ones sit on the first row and column.
+export const alignToCorner = (cells: Cell[]): Cell[] => {
+  const left = Math.min(...cells.map(c => c.col));
+  const top = Math.min(...cells.map(c => c.row));
+  return cells.map(({ col, row }) => ({ col: col - left, row: row - top }));
+};
@@ -0,0 +1,103 @@
+import { Random, Skill } from './utils';
+
+// The arithmetic of the math maze. Every arrow carries an operation and a number, written like "+3"
+// or "÷2", and takes the value in one box to the value in the next. A maze is only shown once every
+// arrow has been checked against the rules.
+
+export type MazeOperation = '+' | '-' | '×' | '÷';
+
+export const MAZE_OPERATIONS: MazeOperation[] = ['+', '-', '×', '÷'];
+
+export interface MazeRules {
+  operations: MazeOperation[];
+  // Numbers added or taken away
+  minStep: number;
+  maxStep: number;
+  maxFactor: number; // Largest number multiplied or divided by, from 2
+  maxValue: number; // Largest number a box can hold; none goes below 0
+}
+
+export interface Step {
+  operation: MazeOperation;
+  operand: number;
+}
+
+export const OPERATION_SKILLS: Record<MazeOperation, Skill> = {
+  '+': 'addition',
+  '-': 'subtraction',
+  '×': 'multiplication',
+  '÷': 'division',
+};
+
+export const parseStep = (op: string): Step => ({ operation: op[0] as MazeOperation, operand: Number(op.slice(1)) });
+
+export const formatStep = ({ operation, operand }: Step) => `${operation}${operand}`;
+
+// The value a step leads to, or null when it is not a whole number, e.g. 7 ÷ 2.
+export const calculate = (value: number, { operation, operand }: Step): number | null => {
+  switch (operation) {
+    case '+': return value + operand;
+    case '-': return value - operand;
+    case '×': return value * operand;
+    case '÷': return operand !== 0 && value % operand === 0 ? value / operand : null;
+    default: return null;
+  }
+};
+
+// The value after following an arrow, e.g. 7 and "-3" give 4.
+export const applyStep = (value: number, op: string) => calculate(value, parseStep(op));
+
+const operandRange = (operation: MazeOperation, { minStep, maxStep, maxFactor }: MazeRules): [number, number] =>
+  operation === '+' || operation === '-' ? [Math.min(minStep, maxStep), maxStep] : [2, maxFactor];
+
+// What is wrong with following the arrow from a box with the value, or null when the rules allow it.
+export const checkStep = (value: number, op: string, rules: MazeRules): string | null => {
+  const step = parseStep(op);
+  if (!rules.operations.includes(step.operation)) return `"${op}" uses an operation that is not allowed`;
+  const [min, max] = operandRange(step.operation, rules);
+  if (!Number.isInteger(step.operand) || step.operand < min || step.operand > max) return `"${op}" is outside ${min}-${max}`;
+  // 0 × 2 and 0 ÷ 2 give 0 again, so a maze could stay on 0 and teach nothing
+  if (value === 0 && (step.operation === '×' || step.operation === '÷')) return `${value} ${op} stays at 0`;
+  const result = calculate(value, step);
+  if (result === null) return `${value} ${op} is not a whole number`;
+  if (result < 0) return `${value} ${op} is below 0`;
+  if (result > rules.maxValue) return `${value} ${op} is above ${rules.maxValue}`;
+  return null;
+};
+
+// Every arrow the rules allow from a box with the value.
+export const allowedSteps = (value: number, rules: MazeRules): string[] =>
+  rules.operations.flatMap(operation => {
+    const [min, max] = operandRange(operation, rules);
+    return Array.from({ length: Math.max(0, max - min + 1) }, (_, i) => formatStep({ operation, operand: min + i }));
+  }).filter(op => checkStep(value, op, rules) === null);
+
+// The values a walk can be on, by how many arrows are still ahead of it: entry k holds the values
+// from which k more arrows keep the rules, so entry 0 holds them all. An empty entry means no walk
+// that long is possible, e.g. only × with numbers up to 50.
+export const walkableValues = (rules: MazeRules, arrows: number): Set<number>[] => {
+  const values = Array.from({ length: rules.maxValue + 1 }, (_, value) => value);
+  const next = values.map(value => allowedSteps(value, rules).map(op => applyStep(value, op)!));
+  const walkable = [new Set(values)];
+  for (let k = 1; k <= arrows; k++) {
+    const ahead = walkable[k - 1];
+    walkable.push(new Set(values.filter(value => next[value].some(result => ahead.has(result)))));
+  }
+  return walkable;
+};
+
+// An allowed arrow from the value, each operation as likely as the others; null when there is none.
+// With `leadsTo`, only arrows ending on a value it accepts are taken.
+export const randomStep = (value: number, rules: MazeRules, random: Random, leadsTo: (result: number) => boolean = () => true): string | null => {
+  const steps = allowedSteps(value, rules).filter(op => leadsTo(applyStep(value, op)!));
+  const operations = rules.operations.filter(operation => steps.some(op => op.startsWith(operation)));
+  if (operations.length === 0) return null;
+  const operation = operations[Math.floor(random() * operations.length)];
+  const ofOperation = steps.filter(op => op.startsWith(operation));
+  return ofOperation[Math.floor(random() * ofOperation.length)];
+};
+
+// The operations taking one value to the other with the number, e.g. 2 and 4 with 2 give + and ×.
+// An arrow can only ask for its operation when exactly one fits.
+export const operationsBetween = (value: number, operand: number, result: number): MazeOperation[] =>
+  MAZE_OPERATIONS.filter(operation => calculate(value, { operation, operand }) === result);
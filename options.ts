@@ -0,0 +1,140 @@
+import { loadState, saveState } from './storage';
+
+// Settings a teacher can change for a game before generating, declared by each generator and
+// rendered as a form by the app shell. Options left unset follow the difficulty level and age.
+
+export type OptionValue = string | number | boolean | string[];
+export type GameOptions = Record<string, OptionValue>;
+
+export interface OptionChoice {
+  value: string;
+  label: string;
+}
+
+interface FieldBase {
+  key: string; // Matches the generator's settings where the option overrides one
+  label: string;
+}
+
+export interface TextField extends FieldBase {
+  type: 'text';
+  maxLength: number;
+  placeholder?: string;
+}
+
+export interface NumberField extends FieldBase {
+  type: 'number';
+  min: number;
+  max: number;
+}
+
+// One of a few values, e.g. the maze layout
+export interface ChoiceField extends FieldBase {
+  type: 'choice';
+  choices: OptionChoice[];
+}
+
+// At least one of a few values, e.g. the operations used
+export interface MultiChoiceField extends FieldBase {
+  type: 'multi';
+  choices: OptionChoice[];
+}
+
+export interface ToggleField extends FieldBase {
+  type: 'toggle';
+}
+
+export type OptionField = TextField | NumberField | ChoiceField | MultiChoiceField | ToggleField;
+
+// Values are keyed by field; T is the generator's own type for them, usually its level settings.
+export interface OptionsSchema<T = GameOptions> {
+  fields: OptionField[];
+  // Values of the fields when the teacher sets none, for a difficulty level and a child's age
+  defaults: (level?: number, age?: number) => T;
+  // Problems with values that are fine one by one but not together, by field key, e.g. operations
+  // that can never fill a maze of the chosen length
+  check?: (values: T) => Record<string, string>;
+}
+
+export const OPERATION_CHOICES: OptionChoice[] = [
+  { value: '+', label: 'Cộng' },
+  { value: '-', label: 'Trừ' },
+];
+
+// The four operations, for games that also multiply and divide
+export const ARITHMETIC_CHOICES: OptionChoice[] = [
+  ...OPERATION_CHOICES,
+  { value: '×', label: 'Nhân' },
+  { value: '÷', label: 'Chia' },
+];
+
+// Describes what is wrong with a value for the field, or returns null when it can be used.
+export const validateOption = (field: OptionField, value: unknown): string | null => {
+  switch (field.type) {
+    case 'text':
+      if (typeof value !== 'string' || !value.trim()) return `Vui lòng nhập ${field.label.toLowerCase()}.`;
+      return value.length > field.maxLength ? `Tối đa ${field.maxLength} kí tự.` : null;
+    case 'number':
+      return Number.isInteger(value) && (value as number) >= field.min && (value as number) <= field.max
+        ? null
+        : `Nhập số nguyên từ ${field.min} đến ${field.max}.`;
+    case 'choice':
+      return field.choices.some(c => c.value === value) ? null : 'Lựa chọn không hợp lệ.';
+    case 'multi':
+      if (!Array.isArray(value) || value.length === 0) return 'Chọn ít nhất một mục.';
+      return value.every(v => field.choices.some(c => c.value === v)) ? null : 'Lựa chọn không hợp lệ.';
+    case 'toggle':
+      return typeof value === 'boolean' ? null : 'Lựa chọn không hợp lệ.';
+  }
+};
+
+// Problems with the values the teacher set, by field key; empty when they can all be used. Once each
+// value is fine, the schema's check looks at them together with the defaults for the level and age.
+export const validateOptions = <T,>(schema: OptionsSchema<T>, values: GameOptions, level?: number, age?: number): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  schema.fields.forEach(field => {
+    if (!(field.key in values)) return;
+    const error = validateOption(field, values[field.key]);
+    if (error) errors[field.key] = error;
+  });
+  if (Object.keys(errors).length > 0 || !schema.check) return errors;
+  return schema.check(resolveOptions(schema, values, level, age));
+};
+
+export const optionDefaults = (schema: OptionsSchema<unknown>, level?: number, age?: number): GameOptions =>
+  ({ ...schema.defaults(level, age) as GameOptions });
+
+// The defaults with every usable value the teacher set on top. Unusable ones, e.g. from an old save, are ignored.
+export const resolveOptions = <T,>(schema: OptionsSchema<T>, values: GameOptions = {}, level?: number, age?: number): T => {
+  const resolved = optionDefaults(schema, level, age);
+  schema.fields.forEach(field => {
+    if (field.key in values && validateOption(field, values[field.key]) === null) resolved[field.key] = values[field.key];
+  });
+  return resolved as T;
+};
+
+// Reads a value typed on the command line, e.g. "12", "+,-" or "yes".
+export const parseOption = (field: OptionField, text: string): OptionValue => {
+  switch (field.type) {
+    case 'text':
+    case 'choice':
+      return text;
+    case 'number':
+      return /^-?\d+$/.test(text.trim()) ? Number(text) : NaN;
+    case 'multi':
+      return text.split(',').map(v => v.trim()).filter(Boolean);
+    case 'toggle': {
+      const word = text.trim().toLowerCase();
+      return ['yes', 'true', 'on'].includes(word) ? true : ['no', 'false', 'off'].includes(word) ? false : text;
+    }
+  }
+};
+
+// --- Saved values ---
+// What the teacher set is kept per game, for the next visit and for the booklet builder.
+
+const optionsKey = (gameId: string) => `options:${gameId}`;
+
+export const loadGameOptions = (gameId: string): GameOptions => loadState<GameOptions>(optionsKey(gameId)) ?? {};
+
+export const saveGameOptions = (gameId: string, options: GameOptions) => saveState(optionsKey(gameId), options);
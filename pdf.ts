@@ -0,0 +1,531 @@
+import { jsPDF, GState } from 'jspdf';
+import { DEFAULT_PAGE_SETUP } from './utils';
+import type { ExportOptions, GameComponentHandles, GameInfo, PageSetup, PaperSize } from './utils';
+import { Matrix, Rgb, Segment, applyMatrix, flattenSvg, matrixScale, multiply, parseColor, parseSvg, rectSegments } from './svg';
+
+// Worksheets are drawn straight into the PDF as vectors, so prints stay sharp at any zoom.
+// Games describe their page in their own units (CSS pixels, as on screen) and the pipeline
+// scales it onto the paper.
+
+// --- Fonts ---
+// Nunito, as on screen, embedded so Vietnamese text prints the same on every machine.
+
+const FONT_FAMILY = 'Nunito';
+const FALLBACK_FONT = 'helvetica';
+const FONT_FILES = {
+  normal: new URL('./node_modules/@expo-google-fonts/nunito/400Regular/Nunito_400Regular.ttf', import.meta.url),
+  bold: new URL('./node_modules/@expo-google-fonts/nunito/700Bold/Nunito_700Bold.ttf', import.meta.url),
+};
+
+type FontStyle = keyof typeof FONT_FILES;
+export type FontLoader = (url: URL) => Promise<ArrayBuffer>;
+
+let fontLoader: FontLoader = async url => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Could not load font ${url} (${response.status}).`);
+  return response.arrayBuffer();
+};
+let fontData: Promise<Record<FontStyle, string>> | null = null;
+
+// Lets environments without fetch for local files (e.g. Node) read the fonts their own way.
+export const setFontLoader = (loader: FontLoader) => {
+  fontLoader = loader;
+  fontData = null;
+};
+
+const toBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const loadFonts = () => {
+  fontData ??= Promise.all(
+    (Object.keys(FONT_FILES) as FontStyle[]).map(async style => [style, toBase64(await fontLoader(FONT_FILES[style]))] as const)
+  ).then(entries => Object.fromEntries(entries) as Record<FontStyle, string>);
+  return fontData;
+};
+
+// Fonts registered on each document, or the built-in font when the files could not be loaded.
+const documentFonts = new WeakMap<jsPDF, string>();
+
+export const createWorksheetPdf = async ({ size, orientation }: PageSetup = DEFAULT_PAGE_SETUP): Promise<jsPDF> => {
+  const pdf = new jsPDF({ orientation, unit: 'pt', format: size, compress: true });
+  try {
+    const fonts = await loadFonts();
+    (Object.keys(fonts) as FontStyle[]).forEach(style => {
+      const fileName = `${FONT_FAMILY}-${style}.ttf`;
+      pdf.addFileToVFS(fileName, fonts[style]);
+      pdf.addFont(fileName, FONT_FAMILY, style);
+    });
+    documentFonts.set(pdf, FONT_FAMILY);
+  } catch (e) {
+    // Still export, with the built-in font; accented letters may then print poorly
+    console.warn("Could not embed the worksheet font.", e);
+    fontData = null;
+    documentFonts.set(pdf, FALLBACK_FONT);
+  }
+  return pdf;
+};
+
+// --- Drawing ---
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface ShapeStyle {
+  fill?: string; // CSS color; unset for no fill
+  stroke?: string;
+  lineWidth?: number;
+  dash?: number[];
+}
+
+export interface TextStyle {
+  size?: number;
+  bold?: boolean;
+  color?: string;
+  align?: 'left' | 'center' | 'right';
+}
+
+// Drawing surface handed to a worksheet. Coordinates are in the worksheet's own units.
+export interface PdfCanvas {
+  rect: (x: number, y: number, width: number, height: number, style: ShapeStyle, radius?: number) => void;
+  circle: (cx: number, cy: number, r: number, style: ShapeStyle) => void;
+  line: (from: Point, to: Point, style: ShapeStyle) => void;
+  polygon: (points: Point[], style: ShapeStyle) => void;
+  // Text centred vertically on y
+  text: (text: string, x: number, y: number, style?: TextStyle) => void;
+  // Width of the text in worksheet units
+  textWidth: (text: string, style?: TextStyle) => number;
+  // Sanitized SVG markup scaled into the square at (x, y)
+  svg: (markup: string, x: number, y: number, size: number) => void;
+  // Colour emoji centred on (cx, cy)
+  emoji: (emoji: string, cx: number, cy: number, size: number) => void;
+}
+
+// A printable page: its size in the worksheet's own units and how to draw it.
+export interface Worksheet {
+  width: number;
+  height: number;
+  draw: (canvas: PdfCanvas) => void;
+  // Where new rows of items start. A sheet too long for the paper continues on the next page
+  // at one of these; without them it is shrunk onto a single page.
+  breaks?: number[];
+}
+
+const toRgb = (color: string | undefined): Rgb | null => (color ? parseColor(color) : null);
+
+interface PaintStyle {
+  fill: Rgb | null;
+  stroke: Rgb | null;
+  lineWidth: number; // In points
+  dash?: number[];
+  fillOpacity?: number;
+  strokeOpacity?: number;
+  evenOdd?: boolean;
+  lineCap?: string;
+  lineJoin?: string;
+}
+
+const paintSegments = (pdf: jsPDF, segments: Segment[], matrix: Matrix, paint: PaintStyle) => {
+  if (!paint.fill && !paint.stroke) return;
+  const fillOpacity = paint.fillOpacity ?? 1;
+  const strokeOpacity = paint.strokeOpacity ?? 1;
+  const translucent = fillOpacity < 1 || strokeOpacity < 1;
+
+  pdf.saveGraphicsState();
+  if (translucent) pdf.setGState(new GState({ opacity: fillOpacity, 'stroke-opacity': strokeOpacity }));
+  if (paint.fill) pdf.setFillColor(...paint.fill);
+  if (paint.stroke) {
+    pdf.setDrawColor(...paint.stroke);
+    pdf.setLineWidth(paint.lineWidth);
+    pdf.setLineCap(paint.lineCap === 'round' ? 'round' : paint.lineCap === 'square' ? 'square' : 'butt');
+    pdf.setLineJoin(paint.lineJoin === 'round' ? 'round' : paint.lineJoin === 'bevel' ? 'bevel' : 'miter');
+    pdf.setLineDashPattern(paint.dash ?? [], 0);
+  }
+
+  segments.forEach(segment => {
+    if (segment.op === 'Z') {
+      pdf.close();
+      return;
+    }
+    const end = applyMatrix(matrix, segment.x, segment.y);
+    if (segment.op === 'M') pdf.moveTo(end.x, end.y);
+    if (segment.op === 'L') pdf.lineTo(end.x, end.y);
+    if (segment.op === 'C') {
+      const c1 = applyMatrix(matrix, segment.x1, segment.y1);
+      const c2 = applyMatrix(matrix, segment.x2, segment.y2);
+      pdf.curveTo(c1.x, c1.y, c2.x, c2.y, end.x, end.y);
+    }
+  });
+
+  if (paint.fill && paint.stroke) {
+    if (paint.evenOdd) pdf.fillStrokeEvenOdd();
+    else pdf.fillStroke();
+  } else if (paint.fill) {
+    if (paint.evenOdd) pdf.fillEvenOdd();
+    else pdf.fill();
+  } else {
+    pdf.stroke();
+  }
+  pdf.restoreGraphicsState();
+};
+
+const EMOJI_FONT = '"Apple Color Emoji", "Segoe UI Emoji", "Noto Color Emoji", sans-serif';
+const EMOJI_PIXELS = 128;
+const emojiImages = new Map<string, string | null>();
+
+// PDF fonts cannot carry colour emoji, so each one is drawn once by the browser and reused as an image.
+const emojiImage = (emoji: string): string | null => {
+  if (emojiImages.has(emoji)) return emojiImages.get(emoji)!;
+  let image: string | null = null;
+  if (typeof document !== 'undefined') {
+    const canvas = document.createElement('canvas');
+    canvas.width = EMOJI_PIXELS;
+    canvas.height = EMOJI_PIXELS;
+    const ctx = canvas.getContext('2d');
+    if (ctx) {
+      ctx.font = `${EMOJI_PIXELS * 0.8}px ${EMOJI_FONT}`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(emoji, EMOJI_PIXELS / 2, EMOJI_PIXELS / 2 + EMOJI_PIXELS * 0.05);
+      image = canvas.toDataURL('image/png');
+    }
+  }
+  emojiImages.set(emoji, image);
+  return image;
+};
+
+// A canvas that maps worksheet units onto the page through `matrix` (a scale and an offset).
+const createPdfCanvas = (pdf: jsPDF, matrix: Matrix): PdfCanvas => {
+  const scale = matrixScale(matrix);
+  const font = documentFonts.get(pdf) ?? FALLBACK_FONT;
+
+  const shapePaint = (style: ShapeStyle): PaintStyle => ({
+    fill: toRgb(style.fill),
+    stroke: toRgb(style.stroke),
+    lineWidth: (style.lineWidth ?? 1) * scale,
+    dash: style.dash?.map(d => d * scale),
+    lineCap: 'round',
+    lineJoin: 'round',
+  });
+
+  const setTextStyle = ({ size = 16, bold = false, color = '#333333' }: TextStyle) => {
+    pdf.setFont(font, bold ? 'bold' : 'normal');
+    pdf.setFontSize(size * scale);
+    pdf.setTextColor(...(toRgb(color) ?? [0, 0, 0]));
+  };
+
+  const text: PdfCanvas['text'] = (value, x, y, style = {}) => {
+    setTextStyle(style);
+    const point = applyMatrix(matrix, x, y);
+    pdf.text(value, point.x, point.y, { align: style.align ?? 'left', baseline: 'middle' });
+  };
+
+  return {
+    rect: (x, y, width, height, style, radius = 0) =>
+      paintSegments(pdf, rectSegments(x, y, width, height, radius), matrix, shapePaint(style)),
+    circle: (cx, cy, r, style) => {
+      const center = applyMatrix(matrix, cx, cy);
+      const paint = shapePaint(style);
+      if (paint.fill) pdf.setFillColor(...paint.fill);
+      if (paint.stroke) {
+        pdf.setDrawColor(...paint.stroke);
+        pdf.setLineWidth(paint.lineWidth);
+        pdf.setLineDashPattern(paint.dash ?? [], 0);
+      }
+      pdf.circle(center.x, center.y, r * scale, paint.fill && paint.stroke ? 'FD' : paint.fill ? 'F' : 'S');
+    },
+    line: (from, to, style) =>
+      paintSegments(pdf, [{ op: 'M', ...from }, { op: 'L', ...to }], matrix, { ...shapePaint(style), fill: null }),
+    polygon: (points, style) =>
+      paintSegments(pdf, [...points.map((p, i): Segment => ({ op: i === 0 ? 'M' : 'L', ...p })), { op: 'Z' }], matrix, shapePaint(style)),
+    text,
+    textWidth: (value, style = {}) => {
+      setTextStyle(style);
+      return pdf.getTextWidth(value) / scale;
+    },
+    svg: (markup, x, y, size) => {
+      const svg = parseSvg(markup);
+      if (!svg) return;
+      // Drawings are normalized to a 100-unit square
+      const placed = multiply(matrix, [size / 100, 0, 0, size / 100, x, y]);
+      flattenSvg(svg, placed).forEach(item => {
+        if (item.kind === 'shape') {
+          paintSegments(pdf, item.segments, item.matrix, {
+            fill: item.fill,
+            stroke: item.stroke,
+            lineWidth: item.strokeWidth * matrixScale(item.matrix),
+            fillOpacity: item.fillOpacity,
+            strokeOpacity: item.strokeOpacity,
+            evenOdd: item.evenOdd,
+            lineCap: item.lineCap,
+            lineJoin: item.lineJoin,
+          });
+        } else if (item.fill) {
+          const itemScale = matrixScale(item.matrix);
+          const point = applyMatrix(item.matrix, item.x, item.y);
+          pdf.setFont(font, item.bold ? 'bold' : 'normal');
+          pdf.setFontSize(item.fontSize * itemScale);
+          pdf.setTextColor(...item.fill);
+          const align = item.anchor === 'middle' ? 'center' : item.anchor === 'end' ? 'right' : 'left';
+          pdf.text(item.text, point.x, point.y, { align, baseline: 'alphabetic' });
+        }
+      });
+    },
+    emoji: (emoji, cx, cy, size) => {
+      const image = emojiImage(emoji);
+      if (!image) {
+        text(emoji, cx, cy, { size: size * 0.8, align: 'center' });
+        return;
+      }
+      const topLeft = applyMatrix(matrix, cx - size / 2, cy - size / 2);
+      pdf.addImage(image, 'PNG', topLeft.x, topLeft.y, size * scale, size * scale, `emoji-${emoji}`);
+    },
+  };
+};
+
+// --- Pages ---
+
+const PAGE_MARGIN = 36;
+const TITLE_HEIGHT = 30;
+const HEADER_GAP = 16;
+const PAGE_NUMBER_SPACE = 24;
+const PRIMARY_COLOR = '#29b6f6';
+const TYPICAL_HEADER_HEIGHT = 120; // drawHeader with two lines of rules
+const PAPER_POINTS: Record<PaperSize, [number, number]> = { a4: [595, 842], letter: [612, 792], a5: [420, 595] };
+
+// Room left for a worksheet on the first page, in points, for generators that lay out to fit the paper.
+export const worksheetArea = ({ size, orientation }: PageSetup): { width: number; height: number } => {
+  const [short, long] = PAPER_POINTS[size];
+  const [width, height] = orientation === 'landscape' ? [long, short] : [short, long];
+  return { width: width - PAGE_MARGIN * 2, height: height - PAGE_MARGIN * 2 - PAGE_NUMBER_SPACE - TYPICAL_HEADER_HEIGHT };
+};
+const HEADER_FIELDS = ['Họ và tên: ..............................', 'Lớp: ..........', 'Ngày: ....................'];
+
+// Printed above every worksheet page.
+export interface WorksheetHeader {
+  title: string;
+  rules?: string;
+}
+
+// Draws the name fields, a rounded title badge and the rules; returns the height it used.
+const drawHeader = (pdf: jsPDF, { title, rules }: WorksheetHeader) => {
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const contentWidth = pageWidth - PAGE_MARGIN * 2;
+  const canvas = createPdfCanvas(pdf, [1, 0, 0, 1, 0, 0]);
+  let y = PAGE_MARGIN + 6;
+
+  const fieldStyle: TextStyle = { size: 11, color: '#555555' };
+  canvas.text(HEADER_FIELDS[0], PAGE_MARGIN, y, fieldStyle);
+  canvas.text(HEADER_FIELDS[1], PAGE_MARGIN + contentWidth * 0.55, y, fieldStyle);
+  canvas.text(HEADER_FIELDS[2], pageWidth - PAGE_MARGIN, y, { ...fieldStyle, align: 'right' });
+  y += 18;
+
+  const titleStyle: TextStyle = { size: 15, bold: true, color: '#ffffff', align: 'center' };
+  const titleWidth = Math.min(contentWidth, canvas.textWidth(title, titleStyle) + 40);
+  canvas.rect((pageWidth - titleWidth) / 2, y, titleWidth, TITLE_HEIGHT, { fill: PRIMARY_COLOR }, TITLE_HEIGHT / 2);
+  canvas.text(title, pageWidth / 2, y + TITLE_HEIGHT / 2, titleStyle);
+  y += TITLE_HEIGHT + 8;
+
+  if (rules) {
+    const rulesStyle: TextStyle = { size: 10, color: '#555555', align: 'center' };
+    canvas.textWidth(rules, rulesStyle); // Sets the font that the wrapping measures with
+    (pdf.splitTextToSize(rules, contentWidth) as string[]).forEach(line => {
+      y += 7;
+      canvas.text(line, pageWidth / 2, y, rulesStyle);
+      y += 7;
+    });
+  }
+  y += 6;
+  canvas.line({ x: PAGE_MARGIN, y }, { x: pageWidth - PAGE_MARGIN, y }, { stroke: '#e0e0e0' });
+  return y + HEADER_GAP - PAGE_MARGIN;
+};
+
+// Splits a sheet taller than `capacity` at its break points. A part with no break inside
+// stays whole and is shrunk later.
+const paginate = (height: number, breaks: number[], capacity: number): [number, number][] => {
+  const points = breaks.filter(b => b > 0 && b < height).sort((a, b) => a - b);
+  const parts: [number, number][] = [];
+  let start = 0;
+  while (height - start > capacity) {
+    const fitting = points.filter(b => b > start && b <= start + capacity);
+    const end = fitting.length > 0 ? fitting[fitting.length - 1] : points.find(b => b > start) ?? height;
+    parts.push([start, end]);
+    start = end;
+  }
+  if (start < height) parts.push([start, height]);
+  return parts;
+};
+
+interface WorksheetPageOptions {
+  header?: WorksheetHeader;
+  isFirstPage?: boolean;
+  scaleToFit?: boolean; // Shrink onto one page instead of continuing on the next
+}
+
+// Adds the worksheet at full width (or smaller, never enlarged), centred horizontally. Long
+// sheets continue on further pages at their break points, each page with the same header.
+export const addWorksheetPage = (pdf: jsPDF, worksheet: Worksheet, { header, isFirstPage = false, scaleToFit = false }: WorksheetPageOptions = {}) => {
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const startPage = () => PAGE_MARGIN + (header ? drawHeader(pdf, header) : 0);
+
+  if (!isFirstPage) pdf.addPage();
+  const top = startPage();
+  const maxHeight = pageHeight - PAGE_MARGIN - PAGE_NUMBER_SPACE - top;
+  const widthScale = Math.min(1, (pageWidth - PAGE_MARGIN * 2) / worksheet.width);
+  const parts = scaleToFit
+    ? [[0, worksheet.height] as [number, number]]
+    : paginate(worksheet.height, worksheet.breaks ?? [], maxHeight / widthScale);
+
+  parts.forEach(([start, end], index) => {
+    if (index > 0) {
+      pdf.addPage();
+      startPage();
+    }
+    const scale = Math.min(widthScale, maxHeight / (end - start));
+    const x = (pageWidth - worksheet.width * scale) / 2;
+    const canvas = createPdfCanvas(pdf, [scale, 0, 0, scale, x, top - start * scale]);
+    if (parts.length === 1) {
+      worksheet.draw(canvas);
+      return;
+    }
+    // Every page draws the whole sheet, clipped to its own part
+    pdf.saveGraphicsState();
+    pdf.rect(0, top, pageWidth, (end - start) * scale, null);
+    pdf.clip();
+    pdf.discardPath();
+    worksheet.draw(canvas);
+    pdf.restoreGraphicsState();
+  });
+};
+
+export const ANSWER_KEY_TITLE = 'Đáp án';
+
+// Shared exportPdf implementation: the worksheet, optionally followed by its answer key.
+export const exportWorksheetPdf = async (
+  getWorksheet: GameComponentHandles['getWorksheet'],
+  fileName: string,
+  game: GameInfo,
+  { answerKey = false, page = DEFAULT_PAGE_SETUP }: ExportOptions = {}
+) => {
+  const worksheet = getWorksheet();
+  if (!worksheet) return;
+  const pdf = await createWorksheetPdf(page);
+  const header = { title: game.name, rules: game.description };
+  addWorksheetPage(pdf, worksheet, { header, isFirstPage: true, scaleToFit: page.scaleToFit });
+  const solution = answerKey ? getWorksheet({ answerKey: true }) : null;
+  if (solution) {
+    addWorksheetPage(pdf, solution, { header: { ...header, title: `${game.name} · ${ANSWER_KEY_TITLE}` }, scaleToFit: page.scaleToFit });
+  }
+  addPageNumbers(pdf);
+  pdf.save(fileName);
+};
+
+// --- Shared pieces ---
+
+export const ANSWER_LINE_COLOR = '#66bb6a';
+
+// Solution lines for the matching games' answer keys.
+export const drawAnswerLines = (canvas: PdfCanvas, pairs: [Point, Point][]) => {
+  pairs.forEach(([from, to]) => canvas.line(from, to, { stroke: ANSWER_LINE_COLOR, lineWidth: 4 }));
+};
+
+// --- Booklets ---
+// All booklet pages share one paper size, whatever the size of each worksheet.
+
+export interface CoverPage {
+  heading: string;
+  fields: string[];
+  entries: string[]; // Table of contents
+}
+
+// Returns how many pages the cover takes: long contents run on over more pages.
+export const addCoverPage = (pdf: jsPDF, { heading, fields, entries }: CoverPage): number => {
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const canvas = createPdfCanvas(pdf, [1, 0, 0, 1, 0, 0]);
+  let y = PAGE_MARGIN + 60;
+  canvas.text(heading, pageWidth / 2, y, { size: 30, bold: true, color: PRIMARY_COLOR, align: 'center' });
+  y += 60;
+  fields.forEach(field => {
+    canvas.text(field, PAGE_MARGIN + 40, y, { size: 15 });
+    y += 28;
+  });
+
+  // Long contents continue in a second column, then on the next page
+  const size = entries.length > 25 ? 10 : 13;
+  const lineHeight = entries.length > 25 ? 16 : 22;
+  const columnWidth = (pageWidth - PAGE_MARGIN * 2 - 40) / 2;
+  let top = y + 24;
+  let column = 0;
+  let pages = 1;
+  y = top;
+  entries.forEach((entry, index) => {
+    if (y > pageHeight - PAGE_MARGIN) {
+      if (column === 0) {
+        column = 1;
+      } else {
+        pdf.addPage();
+        pages++;
+        column = 0;
+        top = PAGE_MARGIN + lineHeight;
+      }
+      y = top;
+    }
+    canvas.text(`${index + 1}. ${entry}`, PAGE_MARGIN + 40 + column * columnWidth, y, { size });
+    y += lineHeight;
+  });
+  return pages;
+};
+
+// Numbers the pages as "1 / N", leaving out the pages of the cover when there is one.
+export const addPageNumbers = (pdf: jsPDF, { coverPages = 0 }: { coverPages?: number } = {}) => {
+  const firstPage = coverPages + 1;
+  const pageCount = pdf.getNumberOfPages() - firstPage + 1;
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+
+  pdf.setFont(documentFonts.get(pdf) ?? FALLBACK_FONT, 'bold');
+  pdf.setFontSize(11);
+  pdf.setTextColor(120);
+  for (let page = 1; page <= pageCount; page++) {
+    pdf.setPage(page + firstPage - 1);
+    pdf.text(`${page} / ${pageCount}`, pageWidth / 2, pageHeight - PAGE_MARGIN / 2 - 4, { align: 'center' });
+  }
+};
+
+// A worksheet bound into a booklet, with its answer key when one was asked for.
+export interface BookletPage {
+  title: string;
+  rules?: string;
+  worksheet: Worksheet;
+  answerKey?: Worksheet | null;
+}
+
+// Cover with the contents, then the worksheets. Answer keys are collected at the back so the
+// worksheets can be handed out separately.
+export const createBookletPdf = async (pages: BookletPage[], { page = DEFAULT_PAGE_SETUP, date = new Date() }: { page?: PageSetup; date?: Date } = {}): Promise<jsPDF> => {
+  const pdf = await createWorksheetPdf(page);
+  const coverPages = addCoverPage(pdf, {
+    heading: 'Tập bài tập của bé',
+    fields: ['Họ và tên: ....................................', 'Lớp: ....................', `Ngày: ${date.toLocaleDateString('vi-VN')}`],
+    entries: pages.map(p => p.title),
+  });
+  const { scaleToFit } = page;
+  pages.forEach(({ title, rules, worksheet }) => {
+    addWorksheetPage(pdf, worksheet, { header: { title, rules }, scaleToFit });
+  });
+  pages.forEach(({ title, answerKey }) => {
+    if (!answerKey) return;
+    addWorksheetPage(pdf, answerKey, { header: { title: `${title} · ${ANSWER_KEY_TITLE}` }, scaleToFit });
+  });
+  addPageNumbers(pdf, { coverPages });
+  return pdf;
+};
@@ -0,0 +1,195 @@
+import type { CheckResult, Skill } from './utils';
+import { createId } from './utils';
+import { loadState, removeState, saveState } from './storage';
+
+// Children using this device and how their checked puzzles went, kept in browser storage.
+
+export interface ChildProfile {
+  id: string;
+  name: string;
+  age: number;
+  avatar: string; // Emoji
+}
+
+export const AVATARS = ['🐻', '🐰', '🦊', '🐼', '🐯', '🐸', '🐧', '🦄', '🐶', '🐱'];
+
+export const SKILL_NAMES: Record<Skill, string> = {
+  counting: 'Đếm số lượng',
+  addition: 'Phép cộng',
+  subtraction: 'Phép trừ',
+  multiplication: 'Phép nhân',
+  division: 'Phép chia',
+  shapes: 'Nhận biết hình dạng',
+  symbols: 'Ghi nhớ kí hiệu',
+  colors: 'Tô màu theo mẫu',
+  copying: 'Chép hình theo mẫu',
+  patterns: 'Tìm quy luật',
+};
+
+export interface SkillTally {
+  correct: number;
+  total: number;
+}
+
+// One puzzle played by one child. Checking the same puzzle again updates its record.
+export interface GameRecord {
+  id: string;
+  profileId: string;
+  gameId: string;
+  seed: number;
+  difficulty: number | null; // Difficulty level of the puzzle, for games that have levels
+  score: number; // 0-100, from the last check
+  correct: number;
+  total: number;
+  mistakes: number; // Wrong answers summed over every check
+  checks: number;
+  completed: boolean; // Everything was right at the last check
+  durationMs: number; // From the puzzle appearing to the last check
+  skills: Partial<Record<Skill, SkillTally>>; // From the last check
+  playedAt: number; // ms since epoch of the last check
+}
+
+// Oldest records are dropped beyond this, so one busy child cannot fill up browser storage.
+const MAX_RECORDS = 500;
+
+const PROFILES_KEY = 'profiles';
+const historyKey = (profileId: string) => `history:${profileId}`;
+
+// --- Profiles ---
+
+export const getProfiles = (): ChildProfile[] => loadState<ChildProfile[]>(PROFILES_KEY) ?? [];
+
+export const saveProfile = (profile: ChildProfile): ChildProfile[] => {
+  const profiles = getProfiles();
+  const next = profiles.some(p => p.id === profile.id)
+    ? profiles.map(p => p.id === profile.id ? profile : p)
+    : [...profiles, profile];
+  saveState(PROFILES_KEY, next);
+  return next;
+};
+
+export const createProfile = (fields: Omit<ChildProfile, 'id'>): ChildProfile => ({ id: createId(), ...fields });
+
+// Forgets the child together with their history.
+export const deleteProfile = (profileId: string): ChildProfile[] => {
+  const next = getProfiles().filter(p => p.id !== profileId);
+  saveState(PROFILES_KEY, next);
+  removeState(historyKey(profileId));
+  return next;
+};
+
+// --- History ---
+
+// Oldest first.
+export const getHistory = (profileId: string): GameRecord[] => loadState<GameRecord[]>(historyKey(profileId)) ?? [];
+
+const tallySkills = (result: CheckResult): Partial<Record<Skill, SkillTally>> => {
+  const skills: Partial<Record<Skill, SkillTally>> = {};
+  result.items.forEach(({ skill, correct }) => {
+    if (!skill) return;
+    const tally = skills[skill] ??= { correct: 0, total: 0 };
+    tally.total++;
+    if (correct) tally.correct++;
+  });
+  return skills;
+};
+
+export interface PlayedPuzzle {
+  gameId: string;
+  seed: number;
+  difficulty: number | null;
+  startedAt: number;
+}
+
+// Saves a check of the puzzle on screen. Pass the record of its previous check, if any, to update that one.
+export const recordCheck = (profileId: string, puzzle: PlayedPuzzle, result: CheckResult, previous: GameRecord | null = null): GameRecord => {
+  const now = Date.now();
+  const record: GameRecord = {
+    id: previous?.id ?? createId(),
+    profileId,
+    gameId: puzzle.gameId,
+    seed: puzzle.seed,
+    difficulty: puzzle.difficulty,
+    score: result.score,
+    correct: result.correct,
+    total: result.total,
+    mistakes: (previous?.mistakes ?? 0) + result.total - result.correct,
+    checks: (previous?.checks ?? 0) + 1,
+    completed: result.correct === result.total,
+    durationMs: now - puzzle.startedAt,
+    skills: tallySkills(result),
+    playedAt: now,
+  };
+  const history = getHistory(profileId).filter(r => r.id !== record.id);
+  saveState(historyKey(profileId), [...history, record].slice(-MAX_RECORDS));
+  return record;
+};
+
+// --- Summaries ---
+
+// Scores are compared between the last TREND_WINDOW puzzles and the ones before them.
+const TREND_WINDOW = 5;
+// A skill needs this many answers before it is judged, and is flagged below STRUGGLE_ACCURACY.
+const MIN_SKILL_ANSWERS = 5;
+const STRUGGLE_ACCURACY = 0.7;
+
+export interface GameSummary {
+  gameId: string;
+  played: number;
+  completed: number;
+  averageScore: number;
+  recentScores: number[]; // Oldest first
+  trend: number | null; // Change in average score, null until there are enough puzzles to compare
+  averageDurationMs: number;
+  averageMistakes: number;
+}
+
+const average = (values: number[]) => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+// Games in the order they were first played.
+export const summarizeGames = (history: GameRecord[]): GameSummary[] => {
+  const byGame = new Map<string, GameRecord[]>();
+  history.forEach(record => byGame.set(record.gameId, [...(byGame.get(record.gameId) ?? []), record]));
+  return Array.from(byGame, ([gameId, records]) => {
+    const scores = records.map(r => r.score);
+    const recent = scores.slice(-TREND_WINDOW);
+    const before = scores.slice(-2 * TREND_WINDOW, -TREND_WINDOW);
+    return {
+      gameId,
+      played: records.length,
+      completed: records.filter(r => r.completed).length,
+      averageScore: Math.round(average(scores)),
+      recentScores: scores.slice(-2 * TREND_WINDOW),
+      trend: before.length > 0 ? Math.round(average(recent) - average(before)) : null,
+      averageDurationMs: average(records.map(r => r.durationMs)),
+      averageMistakes: average(records.map(r => r.mistakes)),
+    };
+  });
+};
+
+export interface SkillSummary extends SkillTally {
+  skill: Skill;
+  gameIds: string[];
+  accuracy: number; // 0-1
+  struggling: boolean;
+}
+
+// Weakest skills first.
+export const summarizeSkills = (history: GameRecord[]): SkillSummary[] => {
+  const skills = new Map<Skill, SkillSummary>();
+  history.forEach(record => {
+    (Object.entries(record.skills) as [Skill, SkillTally][]).forEach(([skill, tally]) => {
+      const summary = skills.get(skill) ?? { skill, gameIds: [], correct: 0, total: 0, accuracy: 0, struggling: false };
+      summary.correct += tally.correct;
+      summary.total += tally.total;
+      if (!summary.gameIds.includes(record.gameId)) summary.gameIds.push(record.gameId);
+      skills.set(skill, summary);
+    });
+  });
+  return Array.from(skills.values())
+    .map(summary => {
+      const accuracy = summary.total > 0 ? summary.correct / summary.total : 0;
+      return { ...summary, accuracy, struggling: summary.total >= MIN_SKILL_ANSWERS && accuracy < STRUGGLE_ACCURACY };
+    })
+    .sort((a, b) => a.accuracy - b.accuracy);
+};
@@ -0,0 +1,37 @@
+import type { GameDefinition } from './utils';
+
+import { noiPhepTinhDefinition } from './Games/NoiPhepTinh';
+import { noiSoDefinition } from './Games/NoiSo';
+import { noiBongDefinition } from './Games/NoiBong';
+import { meCungToanHocDefinition } from './Games/MeCungToanHoc';
+import { maHoaPhepTinhDefinition } from './Games/MaHoaPhepTinh';
+import { toMauManhGhepDefinition } from './Games/ToMauManhGhep';
+import { dienKiTuDefinition } from './Games/DienKiTu';
+import { toTracNghiemDefinition } from './Games/ToTracNghiem';
+import { timHinhDungDefinition } from './Games/TimHinhDung';
+
+const registry = new Map<string, GameDefinition>();
+
+export const registerGame = (definition: GameDefinition) => {
+  if (registry.has(definition.id)) {
+    throw new Error(`Game "${definition.id}" is already registered.`);
+  }
+  registry.set(definition.id, definition);
+};
+
+// Games are listed in the selector in registration order.
+export const getGames = (): GameDefinition[] => Array.from(registry.values());
+
+export const getGame = (id: string): GameDefinition | undefined => registry.get(id);
+
+[
+  noiPhepTinhDefinition,
+  noiSoDefinition,
+  noiBongDefinition,
+  meCungToanHocDefinition,
+  maHoaPhepTinhDefinition,
+  toMauManhGhepDefinition,
+  dienKiTuDefinition,
+  toTracNghiemDefinition,
+  timHinhDungDefinition,
+].forEach(registerGame);
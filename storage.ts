@@ -0,0 +1,77 @@
+import { useEffect } from 'react';
+
+const PREFIX = 'kidgame:';
+// Bump when a saved shape changes; older entries are then ignored instead of crashing a game.
+const STORAGE_VERSION = 1;
+
+interface StoredValue<T> {
+  version: number;
+  value: T;
+}
+
+// Outside a browser (e.g. on the command line) nothing is kept.
+const hasStorage = () => typeof localStorage !== 'undefined';
+
+export const loadState = <T,>(key: string): T | null => {
+  if (!hasStorage()) return null;
+  try {
+    const raw = localStorage.getItem(PREFIX + key);
+    if (!raw) return null;
+    const stored = JSON.parse(raw) as StoredValue<T>;
+    return stored.version === STORAGE_VERSION ? stored.value : null;
+  } catch (e) {
+    console.warn(`Could not read saved state "${key}".`, e);
+    return null;
+  }
+};
+
+export const saveState = <T,>(key: string, value: T) => {
+  if (!hasStorage()) return;
+  try {
+    const stored: StoredValue<T> = { version: STORAGE_VERSION, value };
+    localStorage.setItem(PREFIX + key, JSON.stringify(stored));
+  } catch (e) {
+    // Storage can be full or disabled (private browsing); the game still works without it.
+    console.warn(`Could not save state "${key}".`, e);
+  }
+};
+
+export const removeState = (key: string) => {
+  if (!hasStorage()) return;
+  try {
+    localStorage.removeItem(PREFIX + key);
+  } catch (e) {
+    console.warn(`Could not remove saved state "${key}".`, e);
+  }
+};
+
+// --- Per-game puzzle and progress ---
+// Games mounted without a storage key are never saved.
+
+const gameKey = (storageKey: string) => `game:${storageKey}`;
+
+// With `validate` (the generator's validatePuzzle), a saved puzzle that fails the check is ignored
+// so the game makes a new one, and the one that passes comes back cleaned, e.g. its SVG sanitized.
+export const loadGameState = <T,>(storageKey?: string, validate?: (state: unknown) => Partial<T> | null): T | null => {
+  const saved = storageKey ? loadState<T>(gameKey(storageKey)) : null;
+  if (!saved || !validate) return saved;
+  const puzzle = validate(saved);
+  return puzzle ? { ...saved, ...puzzle } : null;
+};
+
+// Puts a puzzle in place for the game to restore the next time it mounts.
+export const saveGameState = <T,>(storageKey: string, state: T) => saveState(gameKey(storageKey), state);
+
+export const clearGameState = (storageKey?: string) => {
+  if (storageKey) removeState(gameKey(storageKey));
+};
+
+// Saves the snapshot whenever it changes. Pass null while there is nothing worth saving (e.g. loading).
+export const useSavedGameState = <T,>(storageKey: string | undefined, snapshot: T | null) => {
+  const serialized = snapshot === null ? null : JSON.stringify(snapshot);
+  useEffect(() => {
+    if (storageKey && snapshot !== null) {
+      saveState(gameKey(storageKey), snapshot);
+    }
+  }, [storageKey, serialized]); // Compare by content: snapshots are rebuilt on every render
+};
@@ -0,0 +1,557 @@
+// SVG drawings from the AI are untrusted markup. They are parsed here without the DOM (so the
+// same code runs in Node), reduced to an allow-list of shapes and presentation attributes,
+// and rescaled to a 0 0 100 100 viewBox before they are rendered or printed.
+
+export interface SvgElement {
+  tag: string;
+  attrs: Record<string, string>;
+  children: SvgElement[];
+  text: string; // Text content, only kept for <text> and <tspan>
+}
+
+export const SVG_VIEWBOX = '0 0 100 100';
+export const MAX_SVG_LENGTH = 20000;
+const MAX_ELEMENTS = 400;
+const MAX_DEPTH = 12;
+
+const ALLOWED_ELEMENTS = new Set([
+  'svg', 'g', 'path', 'circle', 'ellipse', 'rect', 'line', 'polyline', 'polygon',
+  'text', 'tspan', 'defs', 'lineargradient', 'radialgradient', 'stop',
+]);
+
+const ALLOWED_ATTRIBUTES = new Set([
+  'viewbox', 'd', 'cx', 'cy', 'r', 'rx', 'ry', 'x', 'y', 'x1', 'y1', 'x2', 'y2', 'dx', 'dy',
+  'width', 'height', 'points', 'transform', 'id', 'offset', 'gradientunits', 'fx', 'fy',
+  'fill', 'fill-opacity', 'fill-rule', 'stroke', 'stroke-width', 'stroke-opacity',
+  'stroke-linecap', 'stroke-linejoin', 'stroke-dasharray', 'opacity', 'stop-color', 'stop-opacity',
+  'font-size', 'font-weight', 'text-anchor', 'dominant-baseline',
+]);
+
+const TEXT_ELEMENTS = new Set(['text', 'tspan']);
+
+// Only references to gradients inside the same drawing may use url()
+const isSafeValue = (value: string) => {
+  const lower = value.toLowerCase();
+  if (/[<>]|javascript:|data:|expression\s*\(/.test(lower)) return false;
+  const urls = lower.match(/url\s*\([^)]*\)/g) ?? [];
+  return urls.every(url => /^url\s*\(\s*['"]?#[\w-]+['"]?\s*\)$/.test(url));
+};
+
+const decodeEntities = (text: string) => text
+  .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+  .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+  .replace(/&quot;/g, '"')
+  .replace(/&apos;/g, "'")
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&amp;/g, '&');
+
+const escapeText = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+const escapeAttribute = (text: string) => escapeText(text).replace(/"/g, '&quot;');
+
+const TOKEN = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<\?[\s\S]*?\?>|<\/\s*([\w:-]+)\s*>|<([\w:-]+)((?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*(\/?)>|([^<]+)/g;
+const ATTRIBUTE = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+const parseAttributes = (source: string): Record<string, string> => {
+  const attrs: Record<string, string> = {};
+  for (const [, name, double, single, bare] of source.matchAll(ATTRIBUTE)) {
+    const key = name.toLowerCase();
+    const value = decodeEntities(double ?? single ?? bare ?? '').trim();
+    if (ALLOWED_ATTRIBUTES.has(key) && isSafeValue(value)) attrs[key] = value;
+  }
+  return attrs;
+};
+
+// Parses markup into a tree of allowed elements. Anything else is dropped with its content.
+// Returns null when there is no <svg> root or the markup is too large to be a simple drawing.
+export const parseSvg = (markup: string): SvgElement | null => {
+  if (typeof markup !== 'string' || markup.length > MAX_SVG_LENGTH) return null;
+
+  const root: SvgElement = { tag: '#root', attrs: {}, children: [], text: '' };
+  const stack: SvgElement[] = [root];
+  let skipDepth = 0; // > 0 while inside an element that is not allowed
+  let elementCount = 0;
+
+  for (const [token, closeTag, openTag, attrSource, selfClosing, text] of markup.matchAll(TOKEN)) {
+    if (closeTag) {
+      const tag = closeTag.toLowerCase();
+      if (skipDepth > 0) {
+        skipDepth--;
+      } else {
+        const index = stack.map(e => e.tag).lastIndexOf(tag);
+        if (index > 0) stack.length = index;
+      }
+    } else if (openTag) {
+      const tag = openTag.toLowerCase();
+      if (skipDepth > 0 || !ALLOWED_ELEMENTS.has(tag)) {
+        if (!selfClosing) skipDepth++;
+        continue;
+      }
+      if (++elementCount > MAX_ELEMENTS || stack.length > MAX_DEPTH) return null;
+      const element: SvgElement = { tag, attrs: parseAttributes(attrSource ?? ''), children: [], text: '' };
+      stack[stack.length - 1].children.push(element);
+      if (!selfClosing) stack.push(element);
+    } else if (text !== undefined && skipDepth === 0) {
+      const parent = stack[stack.length - 1];
+      if (TEXT_ELEMENTS.has(parent.tag)) parent.text += decodeEntities(text);
+    } else if (token.startsWith('<![CDATA[') && skipDepth === 0) {
+      const parent = stack[stack.length - 1];
+      if (TEXT_ELEMENTS.has(parent.tag)) parent.text += token.slice(9, -3);
+    }
+  }
+
+  const svg = root.children.find(e => e.tag === 'svg');
+  return svg ?? null;
+};
+
+const NUMBER = /[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi;
+const parseNumbers = (value: string | undefined) => ((value ?? '').match(NUMBER) ?? []).map(Number);
+
+// Fits the drawing's own coordinate system into 0 0 100 100, centred and keeping its proportions.
+const normalizeViewBox = (svg: SvgElement): SvgElement => {
+  let box = parseNumbers(svg.attrs.viewbox);
+  if (box.length !== 4 || box.some(n => !Number.isFinite(n)) || box[2] <= 0 || box[3] <= 0) {
+    const [width] = parseNumbers(svg.attrs.width);
+    const [height] = parseNumbers(svg.attrs.height);
+    box = width > 0 && height > 0 ? [0, 0, width, height] : [0, 0, 100, 100];
+  }
+
+  const { viewbox, width, height, ...attrs } = svg.attrs;
+  const [minX, minY, boxWidth, boxHeight] = box;
+  const normalized: SvgElement = { ...svg, attrs: { ...attrs, viewbox: SVG_VIEWBOX } };
+  if (minX === 0 && minY === 0 && boxWidth === 100 && boxHeight === 100) return normalized;
+
+  const scale = Math.min(100 / boxWidth, 100 / boxHeight);
+  const offsetX = (100 - boxWidth * scale) / 2;
+  const offsetY = (100 - boxHeight * scale) / 2;
+  const round = (n: number) => Math.round(n * 1000) / 1000;
+  const transform = `translate(${round(offsetX)} ${round(offsetY)}) scale(${round(scale)}) translate(${round(-minX)} ${round(-minY)})`;
+  return { ...normalized, children: [{ tag: 'g', attrs: { transform }, children: svg.children, text: '' }] };
+};
+
+const CAMEL_CASE_NAMES: Record<string, string> = {
+  viewbox: 'viewBox',
+  gradientunits: 'gradientUnits',
+  lineargradient: 'linearGradient',
+  radialgradient: 'radialGradient',
+};
+
+export const serializeSvg = (element: SvgElement): string => {
+  const tag = CAMEL_CASE_NAMES[element.tag] ?? element.tag;
+  const attrs = Object.entries(element.attrs)
+    .map(([key, value]) => ` ${CAMEL_CASE_NAMES[key] ?? key}="${escapeAttribute(value)}"`)
+    .join('');
+  const xmlns = element.tag === 'svg' ? ' xmlns="http://www.w3.org/2000/svg"' : '';
+  const content = element.children.map(serializeSvg).join('') + escapeText(element.text);
+  return content ? `<${tag}${xmlns}${attrs}>${content}</${tag}>` : `<${tag}${xmlns}${attrs}/>`;
+};
+
+// Sanitized markup that is safe to inject with dangerouslySetInnerHTML, or null when rejected.
+export const sanitizeSvg = (markup: unknown): string | null => {
+  if (typeof markup !== 'string') return null;
+  const svg = parseSvg(markup);
+  if (!svg || svg.children.length === 0) return null;
+  return serializeSvg(normalizeViewBox(svg));
+};
+
+// --- Geometry ---
+// Drawings flattened to absolute move/line/cubic segments with resolved styles, so they can be
+// drawn by something other than a browser (e.g. straight into a PDF).
+
+export type Matrix = [number, number, number, number, number, number]; // a b c d e f, as in SVG
+export type Rgb = [number, number, number];
+
+export type Segment =
+  | { op: 'M' | 'L'; x: number; y: number }
+  | { op: 'C'; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+  | { op: 'Z' };
+
+export interface SvgShape {
+  kind: 'shape';
+  segments: Segment[];
+  matrix: Matrix;
+  fill: Rgb | null;
+  stroke: Rgb | null;
+  strokeWidth: number;
+  fillOpacity: number;
+  strokeOpacity: number;
+  evenOdd: boolean;
+  lineCap: string;
+  lineJoin: string;
+}
+
+export interface SvgText {
+  kind: 'text';
+  text: string;
+  x: number;
+  y: number;
+  matrix: Matrix;
+  fill: Rgb | null;
+  fontSize: number;
+  bold: boolean;
+  anchor: 'start' | 'middle' | 'end';
+}
+
+export const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+export const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[2] * n[1],
+  m[1] * n[0] + m[3] * n[1],
+  m[0] * n[2] + m[2] * n[3],
+  m[1] * n[2] + m[3] * n[3],
+  m[0] * n[4] + m[2] * n[5] + m[4],
+  m[1] * n[4] + m[3] * n[5] + m[5],
+];
+
+export const applyMatrix = (m: Matrix, x: number, y: number) => ({ x: m[0] * x + m[2] * y + m[4], y: m[1] * x + m[3] * y + m[5] });
+
+// How much the matrix scales lengths, e.g. stroke widths
+export const matrixScale = (m: Matrix) => Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2]));
+
+export const parseTransform = (value: string | undefined): Matrix => {
+  let result = IDENTITY;
+  for (const [, name, args] of (value ?? '').matchAll(/(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g)) {
+    const n = parseNumbers(args);
+    const radians = ((n[0] ?? 0) * Math.PI) / 180;
+    let m: Matrix = IDENTITY;
+    if (name === 'matrix' && n.length === 6) m = n as Matrix;
+    if (name === 'translate') m = [1, 0, 0, 1, n[0] ?? 0, n[1] ?? 0];
+    if (name === 'scale') m = [n[0] ?? 1, 0, 0, n[1] ?? n[0] ?? 1, 0, 0];
+    if (name === 'skewX') m = [1, 0, Math.tan(radians), 1, 0, 0];
+    if (name === 'skewY') m = [1, Math.tan(radians), 0, 1, 0, 0];
+    if (name === 'rotate') {
+      const [, cx = 0, cy = 0] = n;
+      const cos = Math.cos(radians);
+      const sin = Math.sin(radians);
+      m = multiply(multiply([1, 0, 0, 1, cx, cy], [cos, sin, -sin, cos, 0, 0]), [1, 0, 0, 1, -cx, -cy]);
+    }
+    result = multiply(result, m);
+  }
+  return result;
+};
+
+const NAMED_COLORS: Record<string, Rgb> = {
+  black: [0, 0, 0], white: [255, 255, 255], red: [255, 0, 0], green: [0, 128, 0], blue: [0, 0, 255],
+  yellow: [255, 255, 0], orange: [255, 165, 0], purple: [128, 0, 128], pink: [255, 192, 203],
+  brown: [165, 42, 42], gray: [128, 128, 128], grey: [128, 128, 128], cyan: [0, 255, 255],
+  magenta: [255, 0, 255], lime: [0, 255, 0], navy: [0, 0, 128], teal: [0, 128, 128],
+  gold: [255, 215, 0], violet: [238, 130, 238], indigo: [75, 0, 130], silver: [192, 192, 192],
+  lightblue: [173, 216, 230], lightgreen: [144, 238, 144], darkgreen: [0, 100, 0], skyblue: [135, 206, 235],
+};
+
+// Parses a paint value; null means nothing is painted.
+export const parseColor = (value: string | undefined): Rgb | null => {
+  const color = (value ?? '').trim().toLowerCase();
+  if (/^#[0-9a-f]{3}$/.test(color)) return [1, 2, 3].map(i => parseInt(color[i] + color[i], 16)) as Rgb;
+  if (/^#[0-9a-f]{6}$/.test(color)) return [1, 3, 5].map(i => parseInt(color.slice(i, i + 2), 16)) as Rgb;
+  const rgb = color.match(/^rgba?\(([^)]*)\)$/);
+  if (rgb) {
+    const [r, g, b] = parseNumbers(rgb[1]);
+    return [r, g, b].map(c => Math.max(0, Math.min(255, Math.round(c ?? 0)))) as Rgb;
+  }
+  return NAMED_COLORS[color] ?? null;
+};
+
+// Endpoint arc parameters to cubic curves, at most a quarter turn each (SVG implementation notes, F.6).
+const arcToCubics = (
+  x0: number, y0: number, rx: number, ry: number, angle: number, largeArc: boolean, sweep: boolean, x: number, y: number
+): Segment[] => {
+  if (rx === 0 || ry === 0) return [{ op: 'L', x, y }];
+  const phi = (angle * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (x0 - x) / 2;
+  const dy = (y0 - y) / 2;
+  const x1p = cos * dx + sin * dy;
+  const y1p = -sin * dx + cos * dy;
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+  const numerator = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+  const factor = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / (rx * rx * y1p * y1p + ry * ry * x1p * x1p)));
+  const cxp = (factor * rx * y1p) / ry;
+  const cyp = (-factor * ry * x1p) / rx;
+  const cx = cos * cxp - sin * cyp + (x0 + x) / 2;
+  const cy = sin * cxp + cos * cyp + (y0 + y) / 2;
+
+  const vectorAngle = (ux: number, uy: number, vx: number, vy: number) =>
+    Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const start = vectorAngle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+  let delta = vectorAngle((x1p - cxp) / rx, (y1p - cyp) / ry, (-x1p - cxp) / rx, (-y1p - cyp) / ry);
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+  if (sweep && delta < 0) delta += 2 * Math.PI;
+
+  const count = Math.ceil(Math.abs(delta) / (Math.PI / 2));
+  const step = delta / count;
+  const k = (4 / 3) * Math.tan(step / 4);
+  const point = (t: number) => ({
+    x: cx + rx * Math.cos(t) * cos - ry * Math.sin(t) * sin,
+    y: cy + rx * Math.cos(t) * sin + ry * Math.sin(t) * cos,
+  });
+  const derivative = (t: number) => ({
+    x: -rx * Math.sin(t) * cos - ry * Math.cos(t) * sin,
+    y: -rx * Math.sin(t) * sin + ry * Math.cos(t) * cos,
+  });
+
+  const segments: Segment[] = [];
+  for (let i = 0; i < count; i++) {
+    const t1 = start + i * step;
+    const t2 = t1 + step;
+    const p1 = point(t1);
+    const p2 = point(t2);
+    const d1 = derivative(t1);
+    const d2 = derivative(t2);
+    segments.push({ op: 'C', x1: p1.x + k * d1.x, y1: p1.y + k * d1.y, x2: p2.x - k * d2.x, y2: p2.y - k * d2.y, x: p2.x, y: p2.y });
+  }
+  return segments;
+};
+
+// Arc flags may be written without separators ("a5 5 0 015 5"), so they are read one digit at a time.
+const parseArcArguments = (args: string): number[] => {
+  const values: number[] = [];
+  let rest = args;
+  while (rest.trim()) {
+    const isFlag = values.length % 7 === 3 || values.length % 7 === 4;
+    const match = isFlag ? rest.match(/^[\s,]*([01])/) : rest.match(/^[\s,]*([-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?)/i);
+    if (!match) break;
+    values.push(Number(match[1]));
+    rest = rest.slice(match[0].length);
+  }
+  return values;
+};
+
+const ARGUMENT_COUNTS: Record<string, number> = { M: 2, L: 2, H: 1, V: 1, C: 6, S: 4, Q: 4, T: 2, A: 7, Z: 0 };
+
+// Parses path data into absolute move/line/cubic segments.
+export const parsePath = (d: string): Segment[] => {
+  const segments: Segment[] = [];
+  let x = 0, y = 0, startX = 0, startY = 0;
+  let lastControl: { x: number; y: number } | null = null; // For the smooth S/T shorthands
+  let lastCommand = '';
+
+  for (const [, letter, args] of d.matchAll(/([MmLlHhVvCcSsQqTtAaZz])([^MmLlHhVvCcSsQqTtAaZz]*)/g)) {
+    const command = letter.toUpperCase();
+    const relative = letter !== command;
+    const count = ARGUMENT_COUNTS[command];
+    const values = command === 'A' ? parseArcArguments(args) : parseNumbers(args);
+
+    if (command === 'Z') {
+      segments.push({ op: 'Z' });
+      x = startX;
+      y = startY;
+      lastControl = null;
+      lastCommand = 'Z';
+      continue;
+    }
+
+    for (let i = 0; i + count <= values.length; i += count) {
+      const v = values.slice(i, i + count);
+      const ox = relative ? x : 0;
+      const oy = relative ? y : 0;
+      // Extra coordinate pairs after a move are implicit lines
+      const current = command === 'M' && i > 0 ? 'L' : command;
+
+      if (current === 'M') {
+        x = v[0] + ox; y = v[1] + oy;
+        startX = x; startY = y;
+        segments.push({ op: 'M', x, y });
+        lastControl = null;
+      } else if (current === 'L' || current === 'H' || current === 'V') {
+        if (current !== 'V') x = v[0] + ox;
+        if (current === 'V') y = v[0] + oy;
+        if (current === 'L') y = v[1] + oy;
+        segments.push({ op: 'L', x, y });
+        lastControl = null;
+      } else if (current === 'C' || current === 'S') {
+        const [x1, y1] = current === 'C'
+          ? [v[0] + ox, v[1] + oy]
+          : lastControl && /[CS]/.test(lastCommand) ? [2 * x - lastControl.x, 2 * y - lastControl.y] : [x, y];
+        const [x2, y2, ex, ey] = current === 'C'
+          ? [v[2] + ox, v[3] + oy, v[4] + ox, v[5] + oy]
+          : [v[0] + ox, v[1] + oy, v[2] + ox, v[3] + oy];
+        segments.push({ op: 'C', x1, y1, x2, y2, x: ex, y: ey });
+        lastControl = { x: x2, y: y2 };
+        x = ex; y = ey;
+      } else if (current === 'Q' || current === 'T') {
+        const [qx, qy] = current === 'Q'
+          ? [v[0] + ox, v[1] + oy]
+          : lastControl && /[QT]/.test(lastCommand) ? [2 * x - lastControl.x, 2 * y - lastControl.y] : [x, y];
+        const [ex, ey] = current === 'Q' ? [v[2] + ox, v[3] + oy] : [v[0] + ox, v[1] + oy];
+        segments.push({
+          op: 'C',
+          x1: x + (2 / 3) * (qx - x), y1: y + (2 / 3) * (qy - y),
+          x2: ex + (2 / 3) * (qx - ex), y2: ey + (2 / 3) * (qy - ey),
+          x: ex, y: ey,
+        });
+        lastControl = { x: qx, y: qy };
+        x = ex; y = ey;
+      } else if (current === 'A') {
+        const ex = v[5] + ox;
+        const ey = v[6] + oy;
+        segments.push(...arcToCubics(x, y, v[0], v[1], v[2], v[3] === 1, v[4] === 1, ex, ey));
+        lastControl = null;
+        x = ex; y = ey;
+      }
+      lastCommand = current;
+    }
+  }
+  return segments;
+};
+
+// Quarter-ellipse control point distance
+const KAPPA = 0.5522847498;
+
+const ellipseSegments = (cx: number, cy: number, rx: number, ry: number): Segment[] => [
+  { op: 'M', x: cx + rx, y: cy },
+  { op: 'C', x1: cx + rx, y1: cy + ry * KAPPA, x2: cx + rx * KAPPA, y2: cy + ry, x: cx, y: cy + ry },
+  { op: 'C', x1: cx - rx * KAPPA, y1: cy + ry, x2: cx - rx, y2: cy + ry * KAPPA, x: cx - rx, y: cy },
+  { op: 'C', x1: cx - rx, y1: cy - ry * KAPPA, x2: cx - rx * KAPPA, y2: cy - ry, x: cx, y: cy - ry },
+  { op: 'C', x1: cx + rx * KAPPA, y1: cy - ry, x2: cx + rx, y2: cy - ry * KAPPA, x: cx + rx, y: cy },
+  { op: 'Z' },
+];
+
+export const rectSegments = (x: number, y: number, width: number, height: number, rx = 0, ry = rx): Segment[] => {
+  rx = Math.min(Math.max(0, rx), width / 2);
+  ry = Math.min(Math.max(0, ry), height / 2);
+  if (rx === 0 || ry === 0) {
+    return [
+      { op: 'M', x, y }, { op: 'L', x: x + width, y }, { op: 'L', x: x + width, y: y + height },
+      { op: 'L', x, y: y + height }, { op: 'Z' },
+    ];
+  }
+  const kx = rx * KAPPA;
+  const ky = ry * KAPPA;
+  const right = x + width;
+  const bottom = y + height;
+  return [
+    { op: 'M', x: x + rx, y },
+    { op: 'L', x: right - rx, y },
+    { op: 'C', x1: right - rx + kx, y1: y, x2: right, y2: y + ry - ky, x: right, y: y + ry },
+    { op: 'L', x: right, y: bottom - ry },
+    { op: 'C', x1: right, y1: bottom - ry + ky, x2: right - rx + kx, y2: bottom, x: right - rx, y: bottom },
+    { op: 'L', x: x + rx, y: bottom },
+    { op: 'C', x1: x + rx - kx, y1: bottom, x2: x, y2: bottom - ry + ky, x, y: bottom - ry },
+    { op: 'L', x, y: y + ry },
+    { op: 'C', x1: x, y1: y + ry - ky, x2: x + rx - kx, y2: y, x: x + rx, y },
+    { op: 'Z' },
+  ];
+};
+
+const pointSegments = (points: string | undefined, closed: boolean): Segment[] => {
+  const n = parseNumbers(points);
+  const segments: Segment[] = [];
+  for (let i = 0; i + 1 < n.length; i += 2) {
+    segments.push({ op: i === 0 ? 'M' : 'L', x: n[i], y: n[i + 1] });
+  }
+  if (closed && segments.length > 0) segments.push({ op: 'Z' });
+  return segments;
+};
+
+const shapeSegments = ({ tag, attrs }: SvgElement): Segment[] => {
+  const num = (name: string, fallback = 0) => parseNumbers(attrs[name])[0] ?? fallback;
+  switch (tag) {
+    case 'path': return parsePath(attrs.d ?? '');
+    case 'rect': {
+      const rx = attrs.rx !== undefined ? num('rx') : num('ry');
+      const ry = attrs.ry !== undefined ? num('ry') : rx;
+      return rectSegments(num('x'), num('y'), num('width'), num('height'), rx, ry);
+    }
+    case 'circle': return ellipseSegments(num('cx'), num('cy'), num('r'), num('r'));
+    case 'ellipse': return ellipseSegments(num('cx'), num('cy'), num('rx'), num('ry'));
+    case 'line': return [{ op: 'M', x: num('x1'), y: num('y1') }, { op: 'L', x: num('x2'), y: num('y2') }];
+    case 'polyline': return pointSegments(attrs.points, false);
+    case 'polygon': return pointSegments(attrs.points, true);
+    default: return [];
+  }
+};
+
+interface InheritedStyle {
+  fill: string;
+  stroke: string;
+  strokeWidth: number;
+  opacity: number;
+  fillOpacity: number;
+  strokeOpacity: number;
+  fillRule: string;
+  lineCap: string;
+  lineJoin: string;
+  fontSize: number;
+  bold: boolean;
+  anchor: SvgText['anchor'];
+}
+
+const ROOT_STYLE: InheritedStyle = {
+  fill: 'black', stroke: 'none', strokeWidth: 1, opacity: 1, fillOpacity: 1, strokeOpacity: 1,
+  fillRule: 'nonzero', lineCap: 'butt', lineJoin: 'miter', fontSize: 16, bold: false, anchor: 'start',
+};
+
+// Flattens a parsed drawing into shapes and texts in painting order. Gradients are painted
+// with their first stop color, which is close enough for worksheets.
+export const flattenSvg = (svg: SvgElement, matrix: Matrix = IDENTITY): (SvgShape | SvgText)[] => {
+  const gradients = new Map<string, string>();
+  const collectGradients = (element: SvgElement) => {
+    if (element.tag.endsWith('gradient') && element.attrs.id) {
+      const stop = element.children.find(child => child.tag === 'stop' && child.attrs['stop-color']);
+      if (stop) gradients.set(element.attrs.id, stop.attrs['stop-color']);
+    }
+    element.children.forEach(collectGradients);
+  };
+  collectGradients(svg);
+
+  const paint = (value: string): Rgb | null => {
+    const reference = value.match(/url\(\s*['"]?#([\w-]+)/);
+    return parseColor(reference ? gradients.get(reference[1]) : value);
+  };
+
+  const items: (SvgShape | SvgText)[] = [];
+  const visit = (element: SvgElement, parentMatrix: Matrix, parent: InheritedStyle) => {
+    if (element.tag === 'defs' || element.tag.endsWith('gradient') || element.tag === 'stop') return;
+    const { attrs } = element;
+    const number = (value: string | undefined, fallback: number) => parseNumbers(value)[0] ?? fallback;
+    const style: InheritedStyle = {
+      fill: attrs.fill ?? parent.fill,
+      stroke: attrs.stroke ?? parent.stroke,
+      strokeWidth: number(attrs['stroke-width'], parent.strokeWidth),
+      opacity: parent.opacity * number(attrs.opacity, 1),
+      fillOpacity: number(attrs['fill-opacity'], parent.fillOpacity),
+      strokeOpacity: number(attrs['stroke-opacity'], parent.strokeOpacity),
+      fillRule: attrs['fill-rule'] ?? parent.fillRule,
+      lineCap: attrs['stroke-linecap'] ?? parent.lineCap,
+      lineJoin: attrs['stroke-linejoin'] ?? parent.lineJoin,
+      fontSize: number(attrs['font-size'], parent.fontSize),
+      bold: attrs['font-weight'] ? /bold|[6-9]00/.test(attrs['font-weight']) : parent.bold,
+      anchor: (['start', 'middle', 'end'].includes(attrs['text-anchor']) ? attrs['text-anchor'] : parent.anchor) as SvgText['anchor'],
+    };
+    const elementMatrix = multiply(parentMatrix, parseTransform(attrs.transform));
+
+    if (element.tag === 'text' || element.tag === 'tspan') {
+      const text = element.text.trim();
+      if (text) {
+        items.push({
+          kind: 'text', text, matrix: elementMatrix, fill: paint(style.fill),
+          x: number(attrs.x, 0) + number(attrs.dx, 0), y: number(attrs.y, 0) + number(attrs.dy, 0),
+          fontSize: style.fontSize, bold: style.bold, anchor: style.anchor,
+        });
+      }
+    } else {
+      const segments = shapeSegments(element);
+      if (segments.length > 0) {
+        // Lines have no inside to fill
+        const fill = element.tag === 'line' ? null : paint(style.fill);
+        items.push({
+          kind: 'shape', segments, matrix: elementMatrix, fill, stroke: paint(style.stroke),
+          strokeWidth: style.strokeWidth,
+          fillOpacity: style.opacity * style.fillOpacity, strokeOpacity: style.opacity * style.strokeOpacity,
+          evenOdd: style.fillRule === 'evenodd', lineCap: style.lineCap, lineJoin: style.lineJoin,
+        });
+      }
+    }
+    element.children.forEach(child => visit(child, elementMatrix, style));
+  };
+  visit(svg, matrix, ROOT_STYLE);
+  return items;
+};
@@ -1,7 +1,213 @@
+import type React from 'react';
+import type { Worksheet } from './pdf';
+import type { GameOptions, OptionsSchema } from './options';
+
+export interface WorksheetOptions {
+  answerKey?: boolean; // Show the solution instead of blank answers
+}
+
+export type PaperSize = 'a4' | 'letter' | 'a5';
+
+export const PAPER_SIZES: Record<PaperSize, string> = { a4: 'A4', letter: 'Letter', a5: 'A5' };
+
+// Paper the worksheets are printed on.
+export interface PageSetup {
+  size: PaperSize;
+  orientation: 'portrait' | 'landscape';
+  scaleToFit: boolean; // Shrink each worksheet onto one page instead of continuing on the next
+}
+
+export const DEFAULT_PAGE_SETUP: PageSetup = { size: 'a4', orientation: 'portrait', scaleToFit: false };
+
+export interface ExportOptions {
+  answerKey?: boolean; // Append a solved answer-key page after the worksheet
+  page?: PageSetup;
+}
+
+// What an answer practises, so the progress screen can tell e.g. counting from subtraction.
+export type Skill = 'counting' | 'addition' | 'subtraction' | 'multiplication' | 'division' | 'shapes' | 'symbols' | 'colors' | 'copying' | 'patterns';
+
+export interface ItemResult {
+  id: string;
+  correct: boolean;
+  skill?: Skill;
+}
+
+export interface CheckResult {
+  items: ItemResult[];
+  correct: number;
+  total: number;
+  score: number; // 0-100
+}
+
 export interface GameComponentHandles {
-  generateNew: () => void;
-  exportPdf: () => void;
+  generateNew: (seed: number) => void;
+  exportPdf: (options?: ExportOptions) => Promise<void>; // Rejects when the PDF cannot be made
+  // Describes the printable worksheet for the PDF pipeline, or null while nothing is shown yet.
+  getWorksheet: (options?: WorksheetOptions) => Worksheet | null;
+  // The puzzle on screen without the child's answers, as the game's generator produces it; null while nothing is shown.
+  getPuzzle: () => unknown;
+  // Compares the child's answers with the solution and highlights right and wrong items.
+  checkAnswers: () => CheckResult;
 }
 
-export const getRandomInt = (min: number, max: number): number => Math.floor(Math.random() * (max - min + 1)) + min;
-export const shuffleArray = <T,>(array: T[]): T[] => [...array].sort(() => Math.random() - 0.5);
+export interface GameProps {
+  seed: number; // Seed used for the first puzzle when the game mounts
+  level?: number; // Difficulty level for new puzzles; the game's default when unset
+  age?: number; // Age of the child playing, for the games that word their AI prompts or drawings by age
+  options?: GameOptions; // Values the teacher set in the options panel, for new puzzles
+  page?: PageSetup; // Paper chosen in the sidebar, for new puzzles laid out to fit it
+  onReady?: () => void; // Called once a generated puzzle is on screen
+  storageKey?: string; // Where the puzzle and progress are saved; unset for throwaway instances
+}
+
+export type GameComponent = React.ForwardRefExoticComponent<GameProps & React.RefAttributes<GameComponentHandles>>;
+
+export interface AgeRange {
+  min: number;
+  max: number;
+}
+
+// Ages the app caters for; every game has a preset for each of them.
+export const MIN_AGE = 2;
+export const MAX_AGE = 7;
+export const AGES = Array.from({ length: MAX_AGE - MIN_AGE + 1 }, (_, i) => MIN_AGE + i);
+export const DEFAULT_AGE = 4;
+
+// Picks from a list with one value per age from MIN_AGE up; ages beyond either end take the nearest value.
+export const byAge = <T,>(age: number, values: T[]): T =>
+  values[Math.min(Math.max(Math.round(age) - MIN_AGE, 0), values.length - 1)];
+
+// How a game is pitched at a child of a given age.
+export interface AgePreset {
+  level: number; // Starting difficulty level, before the child has results of their own
+  pictureScale: number; // Size of the cards and pictures on screen, 1 for the usual size
+  reading: boolean; // Whether the child can read numerals, or needs counts drawn as dots
+}
+
+// Wording for AI prompts, e.g. "aged 4", or the game's whole range without a child's age.
+export const describeAge = ({ min, max }: AgeRange, age?: number) => age ? `aged ${age}` : `aged ${min}-${max}`;
+
+// What a game is called and who it is for, shared by the app and the command line.
+export interface GameInfo {
+  id: string;
+  name: string;
+  description: string; // Rules text shown in the sidebar
+  ageRange: AgeRange;
+  icon: string; // Emoji shown next to the name
+  // Its worksheets draw emoji, which only a browser can turn into pictures for a PDF
+  emojiPictures?: boolean;
+}
+
+// Everything the app shell needs to list, describe and render a game.
+export interface GameDefinition extends GameInfo {
+  component: GameComponent;
+}
+
+export interface GenerateOptions {
+  level?: number; // Difficulty level from 1; the game's default level when unset
+  age?: number; // Age of the child, for prompt wording and drawings; the game's age range when unset
+  options?: GameOptions; // Values the teacher set; they take precedence over the level's settings
+  page?: PageSetup; // Paper the puzzle will be printed on, for games that lay out to fit it
+  signal?: AbortSignal; // Cancels a pending AI request
+}
+
+// How hard a game's puzzles get: the settings its generator uses at each level, easiest first.
+export interface DifficultyModel<S = unknown> {
+  levels: S[];
+  defaultLevel: number;
+  // Rules shown to the teacher for a level, e.g. "Số từ 0 đến 10"
+  describe: (settings: S) => string[];
+  // Time a child at ease with the level takes per answer, used to tell fast from slow results
+  secondsPerAnswer: number;
+}
+
+// Settings for a level, with out-of-range levels clamped to the nearest one.
+export const levelSettings = <S,>(model: DifficultyModel<S>, level = model.defaultLevel): S =>
+  model.levels[Math.min(Math.max(Math.round(level), 1), model.levels.length) - 1];
+
+// A game's puzzle logic without React: the same seed, level and content always give the same puzzle,
+// so generators run in Node (see cli.ts) as well as in the browser.
+export interface PuzzleGenerator<P = unknown, S = unknown, O = S> {
+  info: GameInfo;
+  difficulty: DifficultyModel<S>;
+  agePreset: (age: number) => AgePreset;
+  optionsSchema: OptionsSchema<O>;
+  generate: (seed: number, options?: GenerateOptions) => Promise<P>;
+  // A puzzle from a library file or saved state, checked and with its drawings sanitized; null when unusable
+  validatePuzzle: (puzzle: unknown) => P | null;
+  getWorksheet: (puzzle: P, options?: WorksheetOptions) => Worksheet;
+}
+
+// A source of uniformly distributed numbers in [0, 1), like Math.random.
+export type Random = () => number;
+
+// Mulberry32: small, fast and good enough for shuffling worksheets.
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Seeds are kept short so a teacher can copy them by hand.
+export const MAX_SEED = 999999;
+export const randomSeed = (): number => Math.floor(Math.random() * (MAX_SEED + 1));
+export const parseSeed = (text: string): number | null => {
+  const trimmed = text.trim();
+  if (!/^\d+$/.test(trimmed)) return null;
+  const seed = Number(trimmed);
+  return seed <= MAX_SEED ? seed : null;
+};
+
+// Short unique id for things saved in the browser.
+export const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const getRandomInt = (min: number, max: number, random: Random = Math.random): number => Math.floor(random() * (max - min + 1)) + min;
+
+// Fisher-Yates shuffle; returns a new array.
+export const shuffleArray = <T,>(array: T[], random: Random = Math.random): T[] => {
+  const result = [...array];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// Pairs each left item with the first unused right item it matches, e.g. for drawing answer lines.
+export const pairMatches = <L, R>(left: L[], right: R[], isMatch: (l: L, r: R) => boolean): [L, R][] => {
+  const used = new Set<R>();
+  const pairs: [L, R][] = [];
+  left.forEach(l => {
+    const match = right.find(r => !used.has(r) && isMatch(l, r));
+    if (match !== undefined) {
+      used.add(match);
+      pairs.push([l, match]);
+    }
+  });
+  return pairs;
+};
+
+export const buildCheckResult = (items: ItemResult[]): CheckResult => {
+  const correct = items.filter(item => item.correct).length;
+  return {
+    items,
+    correct,
+    total: items.length,
+    score: items.length > 0 ? Math.round((correct / items.length) * 100) : 0,
+  };
+};
+
+// Highlight class for an item after checking: '' before the first check.
+export const checkClassName = (checked: Record<string, boolean> | null, id: string | number): string => {
+  if (!checked || !(id in checked)) return '';
+  return checked[id] ? 'correct' : 'incorrect';
+};
+
+export const toCheckedMap = (result: CheckResult): Record<string, boolean> =>
+  Object.fromEntries(result.items.map(item => [item.id, item.correct]));
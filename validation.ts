@@ -0,0 +1,63 @@
+import { AiSchemaError } from './ai';
+
+// Checks for AI content. Validators fix what can be fixed without guessing and throw
+// AiSchemaError otherwise, which makes the content service ask again.
+
+// Data a game can trust, with a note for every automatic fix.
+export interface Validated<T> {
+  value: T;
+  repairs: string[];
+}
+
+export const fail = (message: string): never => {
+  throw new AiSchemaError(message);
+};
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+export const isIntegerInRange = (value: unknown, min: number, max: number): value is number =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+export const isListOf = <T,>(value: unknown, isItem: (item: unknown) => item is T): value is T[] =>
+  Array.isArray(value) && value.every(isItem);
+
+export const requireRecord = (value: unknown, what: string): Record<string, unknown> =>
+  isRecord(value) ? value : fail(`Expected ${what} to be an object.`);
+
+export const requireArray = (value: unknown, what: string): unknown[] =>
+  Array.isArray(value) ? value : fail(`Expected ${what} to be a list.`);
+
+// Keeps the first item for each key, in order.
+export const dedupeBy = <T,>(items: T[], key: (item: T) => unknown): T[] => {
+  const seen = new Set<unknown>();
+  return items.filter(item => {
+    const k = key(item);
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+};
+
+// Drops items that fail the check, noting how many went.
+export const keepValid = <T,>(items: unknown[], isValid: (item: unknown) => item is T, what: string, repairs: string[]): T[] => {
+  const valid = items.filter(isValid);
+  if (valid.length < items.length) repairs.push(`Dropped ${items.length - valid.length} invalid ${what}.`);
+  return valid;
+};
+
+export const keepUnique = <T,>(items: T[], key: (item: T) => unknown, what: string, repairs: string[]): T[] => {
+  const unique = dedupeBy(items, key);
+  if (unique.length < items.length) repairs.push(`Dropped ${items.length - unique.length} duplicate ${what}.`);
+  return unique;
+};
+
+// Trims a list to the expected length, or asks again when too little is left after repairs.
+export const takeExactly = <T,>(items: T[], count: number, what: string, repairs: string[]): T[] => {
+  if (items.length < count) fail(`Expected ${count} ${what}, got ${items.length} usable.`);
+  if (items.length > count) repairs.push(`Kept the first ${count} of ${items.length} ${what}.`);
+  return items.slice(0, count);
+};